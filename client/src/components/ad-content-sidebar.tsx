@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Copy, FileText, Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { STATUS_BADGE_VARIANTS } from "@/components/ad-review-panel";
+import { RaceCardImportDialog } from "@/components/race-card-import";
+import { queryClient, apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { adContentNameSchema, type SelectAdContent } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { AD_STATUS_LABELS } from "@shared/workflow";
+
+interface AdContentSidebarProps {
+  selectedName: string;
+  // New ads start from this template's field defaults
+  templateId: number | null;
+  onSelect: (name: string) => void;
+}
+
+type NameAction = "create" | "rename" | "duplicate";
+
+const ACTION_TITLES: Record<NameAction, string> = {
+  create: "New Ad",
+  rename: "Rename Ad",
+  duplicate: "Duplicate Ad",
+};
+
+export function AdContentSidebar({ selectedName, templateId, onSelect }: AdContentSidebarProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  // Reviewers can open any ad but not create or change them
+  const canEditContent = hasPermission(user, "content:edit");
+  const [action, setAction] = useState<NameAction | null>(null);
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: ads = [] } = useQuery<SelectAdContent[]>({
+    queryKey: ['/api/ad-contents'],
+  });
+
+  const nameMutation = useMutation({
+    mutationFn: async ({ action, newName }: { action: NameAction; newName: string }) => {
+      const current = encodeURIComponent(selectedName);
+      switch (action) {
+        case "create":
+          return apiRequest('POST', '/api/ad-contents', { name: newName, templateId });
+        case "rename":
+          return apiRequest('POST', `/api/ad-content/${current}/rename`, { name: newName });
+        case "duplicate":
+          return apiRequest('POST', `/api/ad-content/${current}/duplicate`, { name: newName });
+      }
+    },
+    onSuccess: (_res, { newName }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ad-contents'] });
+      setAction(null);
+      onSelect(newName);
+    },
+    onError: (mutationError: Error) => {
+      setError(apiErrorMessage(mutationError));
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (adName: string) => apiRequest('DELETE', `/api/ad-content/${encodeURIComponent(adName)}`),
+    onSuccess: (_res, adName) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ad-contents'] });
+      queryClient.removeQueries({ queryKey: ['/api/ad-content', encodeURIComponent(adName)] });
+      onSelect(ads.find((ad) => ad.name !== adName)?.name ?? "default");
+      toast({ title: "Ad Deleted", description: `"${adName}" has been deleted.` });
+    },
+    onError: () => {
+      toast({ title: "Delete Error", description: "Failed to delete ad.", variant: "destructive" });
+    },
+  });
+
+  const openAction = (next: NameAction) => {
+    setAction(next);
+    setName(next === "rename" ? selectedName : next === "duplicate" ? `${selectedName} copy` : "");
+    setError(null);
+  };
+
+  const handleSubmit = () => {
+    const validation = adContentNameSchema.safeParse({ name });
+    if (!validation.success) {
+      setError(validation.error.issues[0].message);
+      return;
+    }
+    if (action) nameMutation.mutate({ action, newName: validation.data.name });
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <FileText className="h-5 w-5 text-primary" />
+            <h2 className="text-lg font-semibold text-card-foreground">Ads</h2>
+          </div>
+          {canEditContent && (
+            <div className="flex items-center space-x-2">
+              {/* Opens the first imported ad */}
+              <RaceCardImportDialog onImported={(names) => names[0] && onSelect(names[0])} />
+              <Button variant="outline" size="sm" onClick={() => openAction("create")} data-testid="button-new-ad">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <ul className="space-y-1">
+          {ads.map((ad) => (
+            <li key={ad.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(ad.name)}
+                className={`w-full text-left rounded-md px-3 py-2 text-sm ${
+                  ad.name === selectedName ? "bg-primary/10 text-primary font-medium" : "hover:bg-muted"
+                }`}
+                data-testid={`button-select-ad-${ad.id}`}
+              >
+                <div className="truncate">{ad.name}</div>
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>Updated {new Date(ad.updatedAt).toLocaleDateString()}</span>
+                  <Badge variant={STATUS_BADGE_VARIANTS[ad.status]} className="text-[10px]">
+                    {AD_STATUS_LABELS[ad.status]}
+                  </Badge>
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {canEditContent && (
+          <div className="flex items-center space-x-2 pt-2 border-t border-border">
+            <Button variant="outline" size="sm" onClick={() => openAction("rename")} data-testid="button-rename-ad">
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => openAction("duplicate")} data-testid="button-duplicate-ad">
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => deleteMutation.mutate(selectedName)}
+              disabled={deleteMutation.isPending || !ads.some((ad) => ad.name === selectedName)}
+              data-testid="button-delete-ad"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{action && ACTION_TITLES[action]}</DialogTitle>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="ad-name">Name</Label>
+            <Input
+              id="ad-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSubmit()}
+              data-testid="input-ad-name"
+            />
+            {error && <p className="mt-2 text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button onClick={handleSubmit} disabled={nameMutation.isPending} data-testid="button-submit-ad-name">
+              {nameMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
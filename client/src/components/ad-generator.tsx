@@ -7,125 +7,252 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Download, Eye, Image, Edit, Info, RefreshCw, Save } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Download, Eye, Image, Edit, Info, RefreshCw, Save } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { CanvasRenderer } from "@/lib/canvas-renderer";
-import { FontLoader } from "@/lib/font-loader";
+import { FontLoader, FontLoadError } from "@/lib/font-loader";
 import { TextPositionEditor } from "@/components/text-position-editor";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import { type TextConfig, type AdContent, adContentSchema } from "@shared/schema";
-import templateImagePath from "@assets/2025_08_Green_Harness_Template_1756701532557.png";
+import { TemplatePicker } from "@/components/template-picker";
+import { CanvasDragOverlay } from "@/components/canvas-drag-overlay";
+import { BatchGenerator } from "@/components/batch-generator";
+import { FormatPreviews } from "@/components/format-previews";
+import { TextConfigHistory } from "@/components/text-config-history";
+import { AdContentSidebar } from "@/components/ad-content-sidebar";
+import { AdReviewPanel } from "@/components/ad-review-panel";
+import { PoolRefreshPanel } from "@/components/pool-refresh-panel";
+import { queryClient, apiRequest, apiErrorMessage, getQueryFn } from "@/lib/queryClient";
+import { BUILTIN_TEMPLATE_NAME, formatKeyFromConfigName, templateImageUrl, textConfigBindingQuery } from "@/lib/templates";
+import { type TextConfig, type AdContent, type Template, type SelectAdContent, type SelectTextPositionConfig, type TextConfigRevision, type FieldType, type FieldValue, type SelectFont, adContentSchema, buildAdContentSchema } from "@shared/schema";
+import { DEFAULT_AD_CONTENT, DEFAULT_TEXT_CONFIG } from "@shared/defaults";
+import { type TextFieldKey } from "@shared/ad-renderer";
+import { fieldInputValue, getTemplateFields, withFieldDefaults } from "@shared/fields";
+import { fontsForTemplate } from "@shared/fonts";
+import { stripMarkup } from "@shared/rich-text";
+import { PRIMARY_FORMAT, findTemplateFormat, getTemplateFormats, textConfigNameForTemplate } from "@shared/formats";
+import { hasPermission } from "@shared/permissions";
+import { DRAFT_WATERMARK, isExportable } from "@shared/workflow";
+
+interface AdContentSave {
+  content: AdContent;
+  templateId: number | null;
+  configName: string;
+}
+
+// data-testid suffix for a field key, e.g. raceName -> race-name
+const toTestId = (key: string) => key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+
+// Currency inputs are text so amounts like "1.2M" can be typed
+const INPUT_TYPES: Record<FieldType, string> = {
+  text: "text",
+  number: "number",
+  currency: "text",
+  datetime: "datetime-local",
+};
+
+// Shown on text inputs; see @shared/rich-text for the markup
+const RICH_TEXT_HINT = "Style part of the text with [font=Montserrat-Black]…[/] or [color=#22c55e]…[/]";
 
 export function AdGenerator() {
   const { toast } = useToast();
+  const { user } = useAuth();
+  // Layout editing is for designers; the server enforces the same rule
+  const canEditLayout = hasPermission(user, "layout:edit");
+  // Reviewers read ad content but don't change it
+  const canEditContent = hasPermission(user, "content:edit");
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [canvasRenderer, setCanvasRenderer] = useState<CanvasRenderer | null>(null);
   const [fontLoader, setFontLoader] = useState<FontLoader | null>(null);
-  const [currentAdData, setCurrentAdData] = useState<AdContent>({
-    raceName: "Emerald Stakes",
-    prizeAmount: "50,000", 
-    projectedPool: "125,000",
-    day: "SATURDAY",
-    numberOfRaces: "8",
-  });
+  // Faces that failed to load; the preview stays blank rather than render in a fallback font
+  const [failedFonts, setFailedFonts] = useState<string[]>([]);
+  const [currentAdData, setCurrentAdData] = useState<AdContent>(DEFAULT_AD_CONTENT);
   const [status, setStatus] = useState<{
     text: string;
     type: "ready" | "loading" | "error";
   }>({ text: "Initializing...", type: "loading" });
   const [lastUpdated, setLastUpdated] = useState<string>("--");
+  const [adName, setAdName] = useState("default");
+  // Id of the ad whose template and layout have been applied to the editor
+  const [boundAdId, setBoundAdId] = useState<number | null>(null);
+  const [templateId, setTemplateId] = useState<number | null>(null);
+  const [formatKey, setFormatKey] = useState(PRIMARY_FORMAT.key);
+  const [templateVersion, setTemplateVersion] = useState(0);
+  // Bumped once uploaded fonts are registered, so the preview redraws in them
+  const [fontsVersion, setFontsVersion] = useState(0);
+  // Bumped as image layer assets finish loading
+  const [assetsVersion, setAssetsVersion] = useState(0);
+  const [batchPreview, setBatchPreview] = useState<AdContent | null>(null);
+  const [overflowingFields, setOverflowingFields] = useState<TextFieldKey[]>([]);
+  const [workingConfig, setWorkingConfig] = useState<TextConfig | null>(null);
+  const [previewRevision, setPreviewRevision] = useState<TextConfigRevision | null>(null);
 
   const form = useForm<AdContent>({
     resolver: zodResolver(adContentSchema),
     defaultValues: currentAdData,
   });
 
-  // Load ad content from database
-  const { data: adContent } = useQuery({
-    queryKey: ['/api/ad-content/default'],
-    enabled: true,
+  // Load the open ad's content from database; null until the ad is first saved
+  const { data: adContent } = useQuery<AdContent | null>({
+    queryKey: ['/api/ad-content', encodeURIComponent(adName)],
+    queryFn: getQueryFn({ on401: "throw", on404: "returnNull" }),
   });
 
-  // Use stable text config to prevent infinite loops
-  const textConfig = useMemo<TextConfig>(() => ({
-    raceName: {
-      bottom: 200,
-      left: 100,
-      alignment: "left",
-      fontFamily: "Montserrat-BoldItalic",
-      fontSize: 60,
-      color: "#1fd87b"
-    },
-    prizeAmount: {
-      bottom: 600,
-      left: 200,
-      alignment: "left",
-      fontFamily: "Montserrat-Black",
-      fontSize: 120,
-      color: "#ffffff"
-    },
-    projectedPool: {
-      bottom: 700,
-      left: 540,
-      alignment: "left",
-      fontFamily: "Montserrat-BoldItalic",
-      fontSize: 48,
-      color: "#1fd87b"
-    },
-    day: {
-      bottom: 800,
-      left: 700,
-      alignment: "left",
-      fontFamily: "Montserrat-BoldItalic",
-      fontSize: 48,
-      color: "#1fd87b"
-    },
-    numberOfRaces: {
-      bottom: 200,
-      left: 1600,
-      alignment: "left",
-      fontFamily: "Montserrat-BoldItalic",
-      fontSize: 48,
-      color: "#ffffff"
+  const { data: ads = [], isSuccess: adsLoaded } = useQuery<SelectAdContent[]>({
+    queryKey: ['/api/ad-contents'],
+  });
+  const adRecord = ads.find((ad) => ad.name === adName);
+
+  // Open the first saved ad when there is no "default" one
+  useEffect(() => {
+    if (adsLoaded && adName === "default" && !adRecord && ads.length > 0) {
+      setAdName(ads[0].name);
     }
-  }), []);
+  }, [adsLoaded]);
 
-  // Save ad content to database
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ['/api/templates'],
+  });
+  const selectedTemplate = templates.find((template) => template.id === templateId);
+  const fields = useMemo(() => getTemplateFields(selectedTemplate), [selectedTemplate]);
+
+  const { data: uploadedFonts } = useQuery<SelectFont[]>({
+    queryKey: ['/api/fonts'],
+  });
+  const fontOptions = useMemo(() => fontsForTemplate(uploadedFonts ?? [], templateId), [uploadedFonts, templateId]);
+  // Falls back to the primary format if the selected one is removed from the template
+  const format = findTemplateFormat(selectedTemplate, formatKey) ?? PRIMARY_FORMAT;
+  const imageUrl = templateImageUrl(templateId, format);
+  const configName = textConfigNameForTemplate(templateId, format.key);
+
+  // Load the stored text config for the selected template format; null until it is first saved
+  const { data: savedConfig, isLoading: isConfigLoading } = useQuery<TextConfig | null>({
+    queryKey: ['/api/text-config', configName],
+    queryFn: getQueryFn({ on401: "throw", on404: "returnNull" }),
+  });
+
+  // The working copy drives the preview; it is dirty until saved back to the server
+  const textConfig = workingConfig ?? savedConfig ?? DEFAULT_TEXT_CONFIG;
+  const isConfigDirty = !!workingConfig && JSON.stringify(workingConfig) !== JSON.stringify(savedConfig ?? DEFAULT_TEXT_CONFIG);
+  // An old revision being previewed replaces the layout on the canvas until restored or dismissed
+  const canvasConfig = previewRevision?.config ?? textConfig;
+
+  // Save ad content to database along with the template and layout it uses
   const saveAdContentMutation = useMutation({
-    mutationFn: (content: AdContent) => apiRequest('POST', '/api/ad-content/default', content),
+    mutationFn: ({ content, templateId, configName }: AdContentSave) => apiRequest(
+      'POST',
+      `/api/ad-content/${encodeURIComponent(adName)}?templateId=${templateId ?? ""}&config=${configName}`,
+      content,
+    ),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/ad-content/default'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/ad-content', encodeURIComponent(adName)] });
+      queryClient.invalidateQueries({ queryKey: ['/api/ad-contents'] });
+      // Editing an approved ad sends it back to review
+      queryClient.invalidateQueries({ queryKey: ['/api/ad-content', encodeURIComponent(adName), 'reviews'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Error", description: apiErrorMessage(error), variant: "destructive" });
     },
   });
 
+  // Every template starts on its primary format. The content is saved against the new
+  // template, so fill in the fields it declares before the server validates them.
+  const handleTemplateChange = useCallback((id: number | null) => {
+    setTemplateId(id);
+    setFormatKey(PRIMARY_FORMAT.key);
+    if (canEditContent) {
+      const newFields = getTemplateFields(templates.find((template) => template.id === id));
+      saveAdContentMutation.mutate({ content: withFieldDefaults(currentAdData, newFields), templateId: id, configName: textConfigNameForTemplate(id, PRIMARY_FORMAT.key) });
+    }
+  }, [currentAdData, templates, canEditContent, saveAdContentMutation]);
+
+  const handleFormatSelect = useCallback((key: string) => {
+    setFormatKey(key);
+    if (canEditContent) saveAdContentMutation.mutate({ content: currentAdData, templateId, configName: textConfigNameForTemplate(templateId, key) });
+  }, [currentAdData, templateId, canEditContent, saveAdContentMutation]);
+
   // Save text positioning configuration to database
   const saveConfigMutation = useMutation({
-    mutationFn: (config: TextConfig) => apiRequest('POST', '/api/text-config/default', config),
-    onError: () => {
-      toast({ title: "Save Error", description: "Failed to save settings.", variant: "destructive" });
+    mutationFn: (config: TextConfig) => apiRequest(
+      'POST',
+      `/api/text-config/${configName}?${textConfigBindingQuery(templateId, format.key)}`,
+      config,
+    ),
+    onSuccess: async (res) => {
+      const saved: SelectTextPositionConfig = await res.json();
+      queryClient.setQueryData(['/api/text-config', saved.name], saved.config);
+      queryClient.invalidateQueries({ queryKey: ['/api/text-configs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/text-config', saved.name, 'revisions'] });
+      toast({ title: "Settings Saved", description: "Text positioning settings have been saved." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Error", description: apiErrorMessage(error), variant: "destructive" });
     },
   });
 
+  // Reset the working copy whenever the stored config (re)loads
+  useEffect(() => {
+    setWorkingConfig(savedConfig ?? null);
+  }, [savedConfig]);
+
+  // Opening an ad switches to the template and layout it was last edited with
+  useEffect(() => {
+    if (!adRecord || adRecord.id === boundAdId) return;
+    setTemplateId(adRecord.templateId);
+    setFormatKey(formatKeyFromConfigName(adRecord.templateId, adRecord.textConfigName));
+    setBoundAdId(adRecord.id);
+  }, [adRecord, boundAdId]);
+
+  // Revisions belong to one config, so stop previewing when switching template or format
+  useEffect(() => {
+    setPreviewRevision(null);
+  }, [configName]);
+
   // Update form when ad content loads from database
   useEffect(() => {
     if (adContent) {
-      setCurrentAdData(adContent as AdContent);
-      form.reset(adContent as AdContent);
+      const content = withFieldDefaults(adContent, fields);
+      setCurrentAdData(content);
+      form.reset(content);
     }
   }, [adContent]);
 
+  // Fill in defaults for fields the newly selected template declares
+  useEffect(() => {
+    setCurrentAdData((data) => withFieldDefaults(data, fields));
+  }, [fields]);
+
   // Handle form changes
-  const handleFormChange = useCallback((field: keyof AdContent, value: string) => {
+  // A batch row being previewed takes over the canvas until the batch tab is left
+  const previewContent = batchPreview ?? currentAdData;
+  // Batch rows can't be approved, so like unapproved ads they preview and export as drafts
+  const watermark = batchPreview || !isExportable(adRecord?.status) ? DRAFT_WATERMARK : undefined;
+
+  // Per-field messages for values the template won't accept, e.g. an amount that isn't a number
+  const contentSchema = useMemo(() => buildAdContentSchema(fields), [fields]);
+  const fieldErrors = useMemo(() => {
+    const validation = contentSchema.safeParse(currentAdData);
+    return validation.success
+      ? {}
+      : Object.fromEntries(validation.error.issues.map((issue) => [String(issue.path[0]), issue.message]));
+  }, [contentSchema, currentAdData]);
+
+  const handleFormChange = useCallback((field: string, value: FieldValue) => {
     const newData = { ...currentAdData, [field]: value };
     setCurrentAdData(newData);
     form.setValue(field, value);
-    
+
+    // Typed amounts are kept as text while editing and saved as parsed values; invalid input isn't saved
+    const validation = contentSchema.safeParse(newData);
+    if (!validation.success) return;
+
     // Debounced save
     const timeoutId = setTimeout(() => {
-      saveAdContentMutation.mutate(newData);
+      saveAdContentMutation.mutate({ content: { ...newData, ...validation.data }, templateId, configName });
     }, 1000);
     
     return () => clearTimeout(timeoutId);
-  }, [currentAdData, form, saveAdContentMutation]);
+  }, [currentAdData, form, contentSchema, templateId, configName, saveAdContentMutation]);
 
   // Initialize canvas and fonts
   useEffect(() => {
@@ -139,15 +266,18 @@ export function AdGenerator() {
         await loader.loadFonts();
         setFontLoader(loader);
 
-        setStatus({ text: "Loading template...", type: "loading" });
-        
-        const renderer = new CanvasRenderer(canvasRef.current);
-        await renderer.loadTemplate(templateImagePath);
-        setCanvasRenderer(renderer);
-
-        setStatus({ text: "Ready", type: "ready" });
-        setLastUpdated(new Date().toLocaleTimeString());
+        setCanvasRenderer(new CanvasRenderer(canvasRef.current));
       } catch (error) {
+        if (error instanceof FontLoadError) {
+          setFailedFonts(error.failedFaces);
+          setStatus({ text: "Font error", type: "error" });
+          toast({
+            title: "Font Error",
+            description: `${error.message}. Reload the page to try again.`,
+            variant: "destructive",
+          });
+          return;
+        }
         console.error("Failed to initialize canvas:", error);
         setStatus({ text: "Error loading template", type: "error" });
         toast({
@@ -161,11 +291,57 @@ export function AdGenerator() {
     initializeCanvas();
   }, [toast]);
 
+  // Register uploaded fonts as the registry changes; faces that fail fall back to Montserrat
+  useEffect(() => {
+    if (!fontLoader || !uploadedFonts) return;
+
+    fontLoader.loadUploadedFonts(uploadedFonts)
+      .catch((error) => {
+        toast({
+          title: "Font Error",
+          description: error instanceof Error ? `${error.message}; Montserrat is used instead.` : "Failed to load uploaded fonts.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setFontsVersion((version) => version + 1));
+  }, [fontLoader, uploadedFonts, toast]);
+
+  // Load the selected template's background; the render effect redraws text on top
+  useEffect(() => {
+    if (!canvasRenderer) return;
+
+    let cancelled = false;
+    setStatus({ text: "Loading template...", type: "loading" });
+
+    canvasRenderer.loadTemplate(imageUrl).then(() => {
+      if (!cancelled) setTemplateVersion((version) => version + 1);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canvasRenderer, imageUrl, format.width, format.height]);
+
+  // Load the assets image layers use; already loaded ones are reused
+  useEffect(() => {
+    if (!canvasRenderer || !canvasConfig) return;
+
+    let cancelled = false;
+    canvasRenderer.loadAssets(canvasConfig).then((loaded) => {
+      if (loaded && !cancelled) setAssetsVersion((version) => version + 1);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canvasRenderer, canvasConfig]);
+
   // Re-render canvas when data or config changes
   useEffect(() => {
-    if (canvasRenderer && fontLoader && currentAdData && textConfig) {
+    if (canvasRenderer && fontLoader && previewContent && canvasConfig && templateVersion > 0) {
       try {
-        canvasRenderer.renderWithText(currentAdData, textConfig as TextConfig);
+        const layouts = canvasRenderer.renderWithText(previewContent, canvasConfig, fields, watermark);
+        setOverflowingFields(Object.keys(layouts).filter((key) => layouts[key].overflow));
         setLastUpdated(new Date().toLocaleTimeString());
         setStatus({ text: "Ready", type: "ready" });
       } catch (error) {
@@ -173,22 +349,12 @@ export function AdGenerator() {
         setStatus({ text: "Render error", type: "error" });
       }
     }
-  }, [currentAdData, textConfig, canvasRenderer, fontLoader]);
+  }, [previewContent, canvasConfig, fields, watermark, canvasRenderer, fontLoader, templateVersion, fontsVersion, assetsVersion]);
 
+  // Editor changes update the working copy; the render effect redraws the preview
   const handleConfigChange = useCallback((newConfig: TextConfig) => {
-    // This is called for immediate live preview updates only
-    // Re-render canvas immediately without saving to database
-    if (canvasRenderer && fontLoader && currentAdData) {
-      try {
-        canvasRenderer.renderWithText(currentAdData, newConfig);
-        setLastUpdated(new Date().toLocaleTimeString());
-        setStatus({ text: "Ready", type: "ready" });
-      } catch (error) {
-        console.error("Failed to render canvas:", error);
-        setStatus({ text: "Render error", type: "error" });
-      }
-    }
-  }, [canvasRenderer, fontLoader, currentAdData]);
+    setWorkingConfig(newConfig);
+  }, []);
 
   const handleDownload = () => {
     if (!canvasRef.current) {
@@ -204,14 +370,17 @@ export function AdGenerator() {
       setStatus({ text: "Preparing download...", type: "loading" });
       
       const link = document.createElement("a");
-      link.download = `ad_${currentAdData.raceName.replace(/\s+/g, "_").toLowerCase()}_${Date.now()}.png`;
+      const title = stripMarkup(fieldInputValue(previewContent[fields[0].key])) || "ad";
+      link.download = `ad_${title.replace(/\s+/g, "_").toLowerCase()}_${format.key}_${Date.now()}.png`;
       link.href = canvasRef.current.toDataURL("image/png");
       link.click();
       
       setStatus({ text: "Downloaded", type: "ready" });
       toast({
         title: "Download Complete",
-        description: "Your ad image has been downloaded successfully.",
+        description: watermark
+          ? "Downloaded with a DRAFT watermark; it will export clean once approved."
+          : "Your ad image has been downloaded successfully.",
       });
     } catch (error) {
       console.error("Download failed:", error);
@@ -225,25 +394,25 @@ export function AdGenerator() {
   };
 
   const handleReset = () => {
-    const defaultData: AdContent = {
-      raceName: "Emerald Stakes",
-      prizeAmount: "50,000",
-      projectedPool: "125,000", 
-      day: "SATURDAY",
-      numberOfRaces: "8",
-    };
+    const defaultData = withFieldDefaults(undefined, fields);
     setCurrentAdData(defaultData);
     form.reset(defaultData);
   };
 
   return (
-    <div className="grid grid-cols-1 xl:grid-cols-5 gap-6 min-h-screen">
-      {/* Main Content Area - Left side on desktop */}
+    <div className="grid grid-cols-1 xl:grid-cols-6 gap-6 min-h-screen">
+      {/* Saved ads - Left edge on desktop */}
+      <div className="xl:col-span-1">
+        <AdContentSidebar selectedName={adName} templateId={templateId} onSelect={setAdName} />
+      </div>
+
+      {/* Main Content Area - Middle on desktop */}
       <div className="xl:col-span-3 space-y-6">
         <Tabs defaultValue="content" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className={`grid w-full ${canEditLayout ? "grid-cols-3" : "grid-cols-2"}`}>
             <TabsTrigger value="content">Ad Content</TabsTrigger>
-            <TabsTrigger value="positioning">Text Positioning</TabsTrigger>
+            {canEditLayout && <TabsTrigger value="positioning">Text Positioning</TabsTrigger>}
+            <TabsTrigger value="batch">Batch</TabsTrigger>
           </TabsList>
           
           <TabsContent value="content" className="mt-6">
@@ -263,75 +432,62 @@ export function AdGenerator() {
                   </div>
                   
                   <form className="space-y-6">
-                    <div className="form-field">
-                      <Label htmlFor="raceName">Race Name</Label>
-                      <Input
-                        id="raceName"
-                        data-testid="input-race-name"
-                        value={currentAdData.raceName}
-                        onChange={(e) => handleFormChange("raceName", e.target.value)}
-                        placeholder="Enter race name"
-                      />
-                    </div>
-
-                    <div className="form-field">
-                      <Label htmlFor="prizeAmount">Prize Amount</Label>
-                      <div className="relative">
-                        <span className="absolute left-3 top-2 text-muted-foreground">$</span>
-                        <Input
-                          id="prizeAmount"
-                          data-testid="input-prize-amount"
-                          value={currentAdData.prizeAmount}
-                          onChange={(e) => handleFormChange("prizeAmount", e.target.value)}
-                          className="pl-8"
-                          placeholder="0.00"
-                        />
-                      </div>
-                    </div>
-
-                    <div className="form-field">
-                      <Label htmlFor="projectedPool">Projected Pool</Label>
-                      <div className="relative">
-                        <span className="absolute left-3 top-2 text-muted-foreground">$</span>
-                        <Input
-                          id="projectedPool"
-                          data-testid="input-projected-pool"
-                          value={currentAdData.projectedPool}
-                          onChange={(e) => handleFormChange("projectedPool", e.target.value)}
-                          className="pl-8"
-                          placeholder="0.00"
-                        />
+                    {fields.map((field) => (
+                      <div key={field.key} className="form-field">
+                        <Label htmlFor={field.key}>{field.label}</Label>
+                        <div className="relative">
+                          {field.prefix && (
+                            <span className="absolute left-3 top-2 text-muted-foreground">{stripMarkup(field.prefix)}</span>
+                          )}
+                          <Input
+                            id={field.key}
+                            data-testid={`input-${toTestId(field.key)}`}
+                            type={INPUT_TYPES[field.type]}
+                            inputMode={field.type === "currency" ? "decimal" : undefined}
+                            min={field.min}
+                            max={field.max}
+                            step={field.integer ? 1 : undefined}
+                            value={fieldInputValue(currentAdData[field.key])}
+                            onChange={(e) => handleFormChange(field.key, e.target.value)}
+                            className={`${field.prefix ? "pl-8" : ""} ${field.suffix ? "pr-16" : ""}`}
+                            placeholder={field.default}
+                            title={field.type === "text" ? RICH_TEXT_HINT : undefined}
+                            disabled={!canEditContent}
+                            aria-invalid={!!fieldErrors[field.key]}
+                          />
+                          {field.suffix && (
+                            <span className="absolute right-3 top-2 text-muted-foreground">{stripMarkup(field.suffix)}</span>
+                          )}
+                        </div>
+                        {fieldErrors[field.key] && (
+                          <p className="mt-1 text-sm text-destructive" data-testid={`error-${toTestId(field.key)}`}>
+                            {fieldErrors[field.key]}
+                          </p>
+                        )}
                       </div>
-                    </div>
-
-                    <div className="form-field">
-                      <Label htmlFor="day">Day</Label>
-                      <Input
-                        id="day"
-                        data-testid="input-day"
-                        value={currentAdData.day}
-                        onChange={(e) => handleFormChange("day", e.target.value)}
-                        placeholder="Enter day"
-                      />
-                    </div>
-
-                    <div className="form-field">
-                      <Label htmlFor="numberOfRaces">Number of Races</Label>
-                      <Input
-                        id="numberOfRaces"
-                        data-testid="input-number-of-races"
-                        type="number"
-                        min="1"
-                        max="20"
-                        value={currentAdData.numberOfRaces}
-                        onChange={(e) => handleFormChange("numberOfRaces", e.target.value)}
-                        placeholder="1"
-                      />
-                    </div>
+                    ))}
                   </form>
                 </CardContent>
               </Card>
 
+              {adRecord && <AdReviewPanel ad={adRecord} />}
+              {adRecord && <PoolRefreshPanel ad={adRecord} />}
+
+              {fontLoader && (
+                <FormatPreviews
+                  templateId={templateId}
+                  template={selectedTemplate}
+                  content={currentAdData}
+                  fields={fields}
+                  activeFormatKey={format.key}
+                  activeConfig={textConfig}
+                  watermark={watermark}
+                  onFormatSelect={handleFormatSelect}
+                />
+              )}
+
+              <TemplatePicker templateId={templateId} onTemplateChange={handleTemplateChange} />
+
               {/* Template Info */}
               <Card className="bg-muted/50">
                 <CardContent className="pt-6">
@@ -340,11 +496,12 @@ export function AdGenerator() {
                     <div>
                       <h4 className="text-sm font-medium text-foreground mb-1">Template Information</h4>
                       <ul className="text-xs text-muted-foreground space-y-1">
-                        <li>• Template: 2025_08_Green_Harness_Template.png</li>
-                        <li>• Dimensions: 1920x1080 pixels</li>
-                        <li>• Fonts: Montserrat variants</li>
+                        <li>• Template: {selectedTemplate?.name ?? BUILTIN_TEMPLATE_NAME}</li>
+                        <li>• Formats: {getTemplateFormats(selectedTemplate).map((f) => `${f.label} ${f.width}x${f.height}`).join(", ")}</li>
+                        <li>• Fonts: {fontOptions.length} available</li>
                         <li>• Database: PostgreSQL storage</li>
                         <li>• Auto-save: Enabled</li>
+                        {canEditLayout && <li>• Drag text on the preview to reposition (hold Alt to skip snapping)</li>}
                       </ul>
                     </div>
                   </div>
@@ -353,14 +510,38 @@ export function AdGenerator() {
             </div>
           </TabsContent>
           
-          <TabsContent value="positioning" className="mt-6">
-            <div className="w-full">
-              <TextPositionEditor
-                config={textConfig}
-                onConfigChange={handleConfigChange}
-                onSave={(config) => saveConfigMutation.mutate(config)}
-              />
-            </div>
+          {canEditLayout && (
+            <TabsContent value="positioning" className="mt-6">
+              <div className="w-full">
+                <TextPositionEditor
+                  config={textConfig}
+                  onConfigChange={handleConfigChange}
+                  onSave={(config) => saveConfigMutation.mutate(config)}
+                  onDiscard={() => setWorkingConfig(savedConfig ?? null)}
+                  isDirty={isConfigDirty}
+                  isSaving={saveConfigMutation.isPending}
+                  isLoading={isConfigLoading}
+                  fields={fields}
+                  fonts={fontOptions}
+                  overflowingFields={overflowingFields}
+                />
+                <TextConfigHistory
+                  configName={configName}
+                  previewRevisionId={previewRevision?.id ?? null}
+                  onPreview={setPreviewRevision}
+                />
+              </div>
+            </TabsContent>
+          )}
+
+          <TabsContent value="batch" className="mt-6">
+            <BatchGenerator
+              fields={fields}
+              textConfig={textConfig}
+              templateId={templateId}
+              format={format}
+              onPreview={setBatchPreview}
+            />
           </TabsContent>
         </Tabs>
       </div>
@@ -383,19 +564,55 @@ export function AdGenerator() {
                       ? "bg-destructive"
                       : "bg-primary"
                   }`}></div>
-                  <span>Live</span>
+                  <span>{previewRevision ? "Previewing revision" : "Live"}</span>
                 </div>
               </div>
               
+              {getTemplateFormats(selectedTemplate).length > 1 && (
+                <Select value={format.key} onValueChange={handleFormatSelect}>
+                  <SelectTrigger className="mb-4" data-testid="select-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getTemplateFormats(selectedTemplate).map((option) => (
+                      <SelectItem key={option.key} value={option.key}>
+                        {option.label} ({option.width}×{option.height})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {failedFonts.length > 0 && (
+                <div className="flex items-start space-x-2 mb-4 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive" data-testid="text-font-error">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>
+                    The preview can't be drawn because {failedFonts.join(", ")} failed to load. Reload the page to try again.
+                  </span>
+                </div>
+              )}
+
               {/* Canvas Container */}
               <div className="canvas-container bg-muted/20 border-2 border-dashed border-border rounded-lg p-4">
-                <canvas
-                  ref={canvasRef}
-                  width={1920}
-                  height={1080}
-                  className="w-full h-auto bg-white rounded border border-border shadow-sm"
-                  data-testid="canvas-preview"
-                />
+                <div className="relative">
+                  <canvas
+                    ref={canvasRef}
+                    width={format.width}
+                    height={format.height}
+                    className="w-full h-auto bg-white rounded border border-border shadow-sm"
+                    data-testid="canvas-preview"
+                  />
+                  {canvasRenderer && canEditLayout && !previewRevision && (
+                    <CanvasDragOverlay
+                      width={format.width}
+                      height={format.height}
+                      content={previewContent}
+                      fields={fields}
+                      config={textConfig}
+                      onConfigChange={handleConfigChange}
+                    />
+                  )}
+                </div>
               </div>
 
               {/* Canvas Controls */}
@@ -403,7 +620,7 @@ export function AdGenerator() {
                 <div className="flex items-center space-x-4 text-sm text-muted-foreground">
                   <div className="flex items-center space-x-1">
                     <Image className="h-4 w-4" />
-                    <span>1920×1080</span>
+                    <span>{format.width}×{format.height}</span>
                   </div>
                   <div className="flex items-center space-x-1">
                     <span className="w-3 h-3 bg-gradient-to-r from-red-500 via-green-500 to-blue-500 rounded-full"></span>
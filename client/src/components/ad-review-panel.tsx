@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { type AdReview, type AdReviewAction, type AdReviewRequest, type AdStatus, type SelectAdContent } from "@shared/schema";
+import { AD_STATUS_LABELS, canTakeAction, isExportable } from "@shared/workflow";
+
+interface AdReviewPanelProps {
+  ad: SelectAdContent;
+}
+
+export const STATUS_BADGE_VARIANTS: Record<AdStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  draft: "outline",
+  in_review: "secondary",
+  approved: "default",
+  published: "default",
+};
+
+const ACTION_LABELS: Record<AdReviewAction, string> = {
+  submit: "Submitted for review",
+  approve: "Approved",
+  reject: "Rejected",
+  publish: "Published",
+  comment: "Commented",
+  reopen: "Edited after approval",
+};
+
+// Buttons in the order they are offered; comments have their own button under the text box
+const STEP_BUTTONS: { action: AdReviewRequest["action"]; label: string; variant: "default" | "outline" | "destructive" }[] = [
+  { action: "submit", label: "Submit for Review", variant: "default" },
+  { action: "approve", label: "Approve", variant: "default" },
+  { action: "reject", label: "Reject", variant: "destructive" },
+  { action: "publish", label: "Publish", variant: "default" },
+];
+
+export function AdReviewPanel({ ad }: AdReviewPanelProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [comment, setComment] = useState("");
+  const reviewsKey = ['/api/ad-content', encodeURIComponent(ad.name), 'reviews'];
+
+  const { data: reviews = [] } = useQuery<AdReview[]>({
+    queryKey: reviewsKey,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: (review: AdReviewRequest) =>
+      apiRequest('POST', `/api/ad-content/${encodeURIComponent(ad.name)}/review`, review),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ad-contents'] });
+      queryClient.invalidateQueries({ queryKey: reviewsKey });
+      setComment("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Review Error", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const submit = (action: AdReviewRequest["action"]) => {
+    reviewMutation.mutate({ action, comment: comment.trim() || undefined });
+  };
+
+  const steps = STEP_BUTTONS.filter((step) => canTakeAction(user, step.action, ad.status));
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            <h2 className="text-lg font-semibold text-card-foreground">Approval</h2>
+          </div>
+          <Badge variant={STATUS_BADGE_VARIANTS[ad.status]} data-testid="badge-ad-status">
+            {AD_STATUS_LABELS[ad.status]}
+          </Badge>
+        </div>
+
+        {!isExportable(ad.status) && (
+          <p className="text-sm text-muted-foreground">
+            Downloads and renders are marked DRAFT until a reviewer approves this ad.
+          </p>
+        )}
+
+        {canTakeAction(user, "comment", ad.status) && (
+          <div className="space-y-2">
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Add a comment (required to reject)"
+              data-testid="input-review-comment"
+            />
+            <div className="flex flex-wrap gap-2">
+              {steps.map((step) => (
+                <Button
+                  key={step.action}
+                  size="sm"
+                  variant={step.variant}
+                  onClick={() => submit(step.action)}
+                  disabled={reviewMutation.isPending || (step.action === "reject" && !comment.trim())}
+                  data-testid={`button-review-${step.action}`}
+                >
+                  {step.label}
+                </Button>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => submit("comment")}
+                disabled={reviewMutation.isPending || !comment.trim()}
+                data-testid="button-review-comment"
+              >
+                Comment
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {reviews.length > 0 && (
+          <ul className="space-y-3 border-t border-border pt-4">
+            {reviews.map((review) => (
+              <li key={review.id} className="text-sm" data-testid={`review-${review.id}`}>
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{ACTION_LABELS[review.action]}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(review.createdAt).toLocaleString()} · {review.authorName ?? "system"}
+                  </span>
+                </div>
+                {review.comment && <p className="mt-1 text-muted-foreground whitespace-pre-wrap">{review.comment}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState, useMemo, useEffect } from "react";
+import JSZip from "jszip";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, FileSpreadsheet } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { CanvasRenderer } from "@/lib/canvas-renderer";
+import { FontLoader, FontLoadError } from "@/lib/font-loader";
+import { templateImageUrl } from "@/lib/templates";
+import { canvasToBlob, downloadBlob } from "@/lib/download";
+import {
+  buildBatchRows,
+  buildFileNames,
+  guessColumnMapping,
+  parseSpreadsheet,
+  DEFAULT_FILENAME_PATTERN,
+  type ColumnMapping,
+  type Spreadsheet,
+} from "@/lib/batch";
+import { type AdContent, type FieldDefinition, type TemplateFormat, type TextConfig } from "@shared/schema";
+import { DRAFT_WATERMARK } from "@shared/workflow";
+import { formatFieldValue } from "@shared/fields";
+import { stripMarkup } from "@shared/rich-text";
+
+interface BatchGeneratorProps {
+  fields: FieldDefinition[];
+  textConfig: TextConfig;
+  templateId: number | null;
+  format: TemplateFormat;
+  onPreview: (content: AdContent | null) => void;
+}
+
+const UNMAPPED = "__default__";
+
+export function BatchGenerator({ fields, textConfig, templateId, format, onPreview }: BatchGeneratorProps) {
+  const { toast } = useToast();
+  const [sheet, setSheet] = useState<Spreadsheet | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [pattern, setPattern] = useState(DEFAULT_FILENAME_PATTERN);
+  const [previewLine, setPreviewLine] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Re-guess the mapping when a new file is loaded or the template's fields change
+  useEffect(() => {
+    if (sheet) setMapping(guessColumnMapping(fields, sheet.columns));
+  }, [sheet, fields]);
+
+  // Stop previewing a batch row when leaving the tab
+  useEffect(() => () => onPreview(null), [onPreview]);
+
+  const rows = useMemo(() => (sheet ? buildBatchRows(sheet, fields, mapping) : []), [sheet, fields, mapping]);
+  const fileNames = useMemo(() => buildFileNames(pattern, rows.map((row) => row.content)), [pattern, rows]);
+  const validCount = rows.filter((row) => row.errors.length === 0).length;
+
+  const handleFile = async (file: File | undefined) => {
+    onPreview(null);
+    setPreviewLine(null);
+    if (!file) {
+      setSheet(null);
+      return;
+    }
+
+    try {
+      setSheet(await parseSpreadsheet(file));
+      setFileName(file.name);
+    } catch (error) {
+      console.error("Failed to read spreadsheet:", error);
+      toast({ title: "Import Error", description: "Could not read that CSV or XLSX file.", variant: "destructive" });
+    }
+  };
+
+  const handlePreview = (line: number, content: AdContent) => {
+    setPreviewLine(line);
+    onPreview(content);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      // Render off-screen so the live preview is left alone
+      const canvas = document.createElement("canvas");
+      canvas.width = format.width;
+      canvas.height = format.height;
+      const renderer = new CanvasRenderer(canvas);
+      await new FontLoader().loadFonts();
+      await renderer.loadTemplate(templateImageUrl(templateId, format));
+      await renderer.loadAssets(textConfig);
+
+      const zip = new JSZip();
+      for (let index = 0; index < rows.length; index++) {
+        if (rows[index].errors.length > 0) continue;
+        // Batch rows aren't saved ads, so they can't be approved and always export as drafts
+        renderer.renderWithText(rows[index].content, textConfig, fields, DRAFT_WATERMARK);
+        zip.file(fileNames[index], await canvasToBlob(canvas));
+      }
+
+      downloadBlob(await zip.generateAsync({ type: "blob" }), `ads_${format.key}_${Date.now()}.zip`);
+
+      toast({
+        title: "Batch Complete",
+        description: `${validCount} ad${validCount === 1 ? "" : "s"} exported${rows.length > validCount ? `, ${rows.length - validCount} skipped with errors` : ""}.`,
+      });
+    } catch (error) {
+      console.error("Batch export failed:", error);
+      toast({ title: "Batch Error", description: error instanceof FontLoadError ? `${error.message}. Reload the page to try again.` : "Failed to export the batch. Please try again.", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <FileSpreadsheet className="h-5 w-5 text-primary" />
+            <h2 className="text-lg font-semibold text-card-foreground">Batch Generation</h2>
+          </div>
+          <Button
+            onClick={handleExport}
+            disabled={validCount === 0 || isExporting}
+            size="sm"
+            data-testid="button-export-batch"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {isExporting ? "Rendering..." : `Download ZIP (${validCount})`}
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="batch-file">CSV or XLSX File</Label>
+            <Input
+              id="batch-file"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              data-testid="input-batch-file"
+            />
+          </div>
+          <div>
+            <Label htmlFor="batch-pattern">File Name Pattern</Label>
+            <Input
+              id="batch-pattern"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder={DEFAULT_FILENAME_PATTERN}
+              data-testid="input-batch-pattern"
+            />
+          </div>
+        </div>
+
+        {sheet && (
+          <>
+            <div>
+              <h3 className="text-sm font-medium mb-2">Column Mapping · {fileName}</h3>
+              <div className="grid grid-cols-2 gap-4">
+                {fields.map((field) => (
+                  <div key={field.key}>
+                    <Label htmlFor={`batch-map-${field.key}`}>{field.label}</Label>
+                    <Select
+                      value={mapping[field.key] ?? UNMAPPED}
+                      onValueChange={(value) => setMapping({ ...mapping, [field.key]: value === UNMAPPED ? null : value })}
+                    >
+                      <SelectTrigger id={`batch-map-${field.key}`} data-testid={`select-batch-map-${field.key}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Use default ({field.default || "blank"})</SelectItem>
+                        {sheet.columns.map((column) => (
+                          <SelectItem key={column} value={column}>{column}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-medium">Rows</h3>
+                <span className="text-xs text-muted-foreground">
+                  {validCount} valid · {rows.length - validCount} with errors · click a row to preview
+                </span>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Line</TableHead>
+                    <TableHead>{fields[0]?.label}</TableHead>
+                    <TableHead>File</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row, index) => (
+                    <TableRow
+                      key={row.line}
+                      onClick={() => handlePreview(row.line, row.content)}
+                      className={`cursor-pointer ${previewLine === row.line ? "bg-muted" : ""}`}
+                      data-testid={`row-batch-${row.line}`}
+                    >
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell>{fields[0] ? stripMarkup(formatFieldValue(fields[0], row.content[fields[0].key])) : ""}</TableCell>
+                      <TableCell className="font-mono text-xs">{fileNames[index]}</TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <Badge variant="secondary">OK</Badge>
+                        ) : (
+                          <span className="text-xs text-destructive">{row.errors.join("; ")}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState, useEffect, useRef, useCallback, type PointerEvent } from "react";
+import { type AdContent, type FieldDefinition, type TextConfig } from "@shared/schema";
+import { getFieldPosition, getFitBox, getLayerOrder, getLayerOrigin, isImageLayer, layoutTextFields, setLayerOrigin, type TextFieldBounds } from "@shared/ad-renderer";
+import { snapBounds, type SnapGuide } from "@/lib/snapping";
+
+interface CanvasDragOverlayProps {
+  width: number;
+  height: number;
+  content: AdContent;
+  config: TextConfig;
+  fields: FieldDefinition[];
+  onConfigChange: (config: TextConfig) => void;
+}
+
+interface DragState {
+  // A field key, or an image layer's key
+  key: string;
+  pointerX: number;
+  pointerY: number;
+  anchorX: number;
+  anchorY: number;
+  bounds: TextFieldBounds;
+}
+
+// Snap distance in screen pixels, converted to canvas pixels per gesture
+const SNAP_THRESHOLD = 8;
+
+function contains(bounds: TextFieldBounds, x: number, y: number): boolean {
+  return x >= bounds.x && x <= bounds.x + bounds.width && y >= bounds.y && y <= bounds.y + bounds.height;
+}
+
+export function CanvasDragOverlay({ width, height, content, config, fields, onConfigChange }: CanvasDragOverlayProps) {
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [guides, setGuides] = useState<SnapGuide[]>([]);
+
+  // Bounds of every layer in draw order; image layers cover their whole box
+  const measure = useCallback((): Record<string, TextFieldBounds> | null => {
+    const ctx = overlayRef.current?.getContext('2d');
+    if (!ctx) return null;
+
+    const layouts = layoutTextFields(ctx, content, config, fields);
+    const bounds: Record<string, TextFieldBounds> = {};
+    for (const { key, layer } of getLayerOrder(config, fields)) {
+      bounds[key] = isImageLayer(layer) ? { x: layer.x, y: layer.y, width: layer.width, height: layer.height } : layouts[key].bounds;
+    }
+    return bounds;
+  }, [content, config, fields]);
+
+  const layerAt = (key: string) => {
+    const layer = config[key];
+    return layer && isImageLayer(layer) ? layer : getFieldPosition(config, key);
+  };
+
+  // Map a pointer event into canvas pixel coordinates
+  const toCanvasPoint = (e: PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const hitTest = (bounds: Record<string, TextFieldBounds>, x: number, y: number): string | null => {
+    // Later layers draw on top, so test them first
+    const keys = Object.keys(bounds).reverse();
+    return keys.find((key) => contains(bounds[key], x, y)) ?? null;
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    const bounds = measure();
+    if (!bounds) return;
+
+    const { x, y } = toCanvasPoint(e);
+    const key = hitTest(bounds, x, y);
+    setSelected(key);
+    if (!key) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const origin = getLayerOrigin(layerAt(key));
+    dragRef.current = {
+      key,
+      pointerX: x,
+      pointerY: y,
+      anchorX: origin.x,
+      anchorY: origin.y,
+      bounds: bounds[key],
+    };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    const { x, y, scale } = toCanvasPoint(e);
+    const drag = dragRef.current;
+
+    if (!drag) {
+      const bounds = measure();
+      setHovered(bounds ? hitTest(bounds, x, y) : null);
+      return;
+    }
+
+    const bounds = measure();
+    if (!bounds) return;
+
+    const dx = x - drag.pointerX;
+    const dy = y - drag.pointerY;
+    const others = Object.keys(bounds)
+      .filter((key) => key !== drag.key)
+      .map((key) => bounds[key]);
+
+    const snap = e.altKey
+      ? { dx: 0, dy: 0, guides: [] }
+      : snapBounds(
+          { ...drag.bounds, x: drag.bounds.x + dx, y: drag.bounds.y + dy },
+          others,
+          width,
+          height,
+          SNAP_THRESHOLD * scale,
+        );
+
+    setGuides(snap.guides);
+    onConfigChange({
+      ...config,
+      [drag.key]: setLayerOrigin(layerAt(drag.key), drag.anchorX + dx + snap.dx, drag.anchorY + dy + snap.dy),
+    });
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (dragRef.current) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    dragRef.current = null;
+    setGuides([]);
+  };
+
+  // Redraw selection boxes and snap guides on top of the preview
+  useEffect(() => {
+    const canvas = overlayRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+    const bounds = measure();
+    if (!bounds) return;
+
+    const outline = (key: string, color: string, dash: number[]) => {
+      const box = bounds[key];
+      // The layer may have just been removed in the editor
+      if (!box) return;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 3;
+      ctx.setLineDash(dash);
+      ctx.strokeRect(box.x - 6, box.y - 6, box.width + 12, box.height + 12);
+    };
+
+    if (hovered && hovered !== selected) outline(hovered, 'rgba(255, 255, 255, 0.6)', [10, 8]);
+    if (selected) {
+      outline(selected, '#f0abfc', []);
+
+      // Show the fit box the text is shrunk or wrapped into
+      const layer = layerAt(selected);
+      const fitBox = isImageLayer(layer) ? null : getFitBox(layer);
+      if (fitBox) {
+        ctx.strokeStyle = '#38bdf8';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([6, 6]);
+        // An unset dimension is unconstrained, so span the canvas in that direction
+        ctx.strokeRect(
+          fitBox.width ? fitBox.x : 0,
+          fitBox.height ? fitBox.y : 0,
+          fitBox.width || width,
+          fitBox.height || height,
+        );
+      }
+    }
+
+    ctx.strokeStyle = '#e879f9';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([]);
+    for (const guide of guides) {
+      ctx.beginPath();
+      if (guide.orientation === "vertical") {
+        ctx.moveTo(guide.position, 0);
+        ctx.lineTo(guide.position, height);
+      } else {
+        ctx.moveTo(0, guide.position);
+        ctx.lineTo(width, guide.position);
+      }
+      ctx.stroke();
+    }
+  }, [measure, config, selected, hovered, guides, width, height]);
+
+  return (
+    <canvas
+      ref={overlayRef}
+      width={width}
+      height={height}
+      className={`absolute inset-0 w-full h-full ${hovered ? "cursor-move" : "cursor-default"}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerLeave={() => setHovered(null)}
+      data-testid="canvas-drag-overlay"
+    />
+  );
+}
@@ -0,0 +1,189 @@
+import { useState, useEffect, useRef } from "react";
+import { useQueries } from "@tanstack/react-query";
+import JSZip from "jszip";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Download, LayoutGrid } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getQueryFn } from "@/lib/queryClient";
+import { CanvasRenderer } from "@/lib/canvas-renderer";
+import { canvasToBlob, downloadBlob } from "@/lib/download";
+import { templateImageUrl } from "@/lib/templates";
+import { type AdContent, type FieldDefinition, type Template, type TemplateFormat, type TextConfig } from "@shared/schema";
+import { getTemplateFormats, textConfigNameForTemplate } from "@shared/formats";
+import { DEFAULT_TEXT_CONFIG } from "@shared/defaults";
+import { fieldInputValue } from "@shared/fields";
+import { stripMarkup } from "@shared/rich-text";
+
+interface FormatPreviewsProps {
+  templateId: number | null;
+  template?: Template;
+  content: AdContent;
+  fields: FieldDefinition[];
+  // The format open in the editor previews its unsaved working config
+  activeFormatKey: string;
+  activeConfig: TextConfig;
+  // Drawn over previews and exports until the ad is approved
+  watermark?: string;
+  onFormatSelect: (formatKey: string) => void;
+}
+
+interface FormatPreviewProps {
+  templateId: number | null;
+  format: TemplateFormat;
+  content: AdContent;
+  fields: FieldDefinition[];
+  config?: TextConfig;
+  watermark?: string;
+}
+
+function FormatPreview({ templateId, format, content, fields, config, watermark }: FormatPreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [renderer, setRenderer] = useState<CanvasRenderer | null>(null);
+  const [templateVersion, setTemplateVersion] = useState(0);
+  const [assetsVersion, setAssetsVersion] = useState(0);
+  const imageUrl = templateImageUrl(templateId, format);
+
+  useEffect(() => {
+    if (canvasRef.current) setRenderer(new CanvasRenderer(canvasRef.current));
+  }, []);
+
+  useEffect(() => {
+    if (!renderer) return;
+
+    let cancelled = false;
+    renderer.loadTemplate(imageUrl).then(() => {
+      if (!cancelled) setTemplateVersion((version) => version + 1);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [renderer, imageUrl, format.width, format.height]);
+
+  // Redraw once the image layers' assets arrive
+  useEffect(() => {
+    if (!renderer || !config) return;
+
+    let cancelled = false;
+    renderer.loadAssets(config).then((loaded) => {
+      if (loaded && !cancelled) setAssetsVersion((version) => version + 1);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [renderer, config]);
+
+  useEffect(() => {
+    if (renderer && config && templateVersion > 0) {
+      renderer.renderWithText(content, config, fields, watermark);
+    }
+  }, [renderer, content, config, fields, watermark, templateVersion, assetsVersion]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={format.width}
+      height={format.height}
+      className="max-w-full max-h-48 w-auto h-auto bg-white rounded border border-border shadow-sm"
+      data-testid={`canvas-format-${format.key}`}
+    />
+  );
+}
+
+export function FormatPreviews({ templateId, template, content, fields, activeFormatKey, activeConfig, watermark, onFormatSelect }: FormatPreviewsProps) {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+  const formats = getTemplateFormats(template);
+
+  const configQueries = useQueries({
+    queries: formats.map((format) => ({
+      queryKey: ['/api/text-config', textConfigNameForTemplate(templateId, format.key)],
+      queryFn: getQueryFn<TextConfig | null>({ on401: "throw", on404: "returnNull" }),
+    })),
+  });
+  // Formats nobody has laid out yet preview with the default positions
+  const configs = formats.map((format, index) =>
+    format.key === activeFormatKey
+      ? activeConfig
+      : configQueries[index].isSuccess ? configQueries[index].data ?? DEFAULT_TEXT_CONFIG : undefined,
+  );
+  const isReady = configs.every(Boolean);
+
+  const handleExportAll = async () => {
+    setIsExporting(true);
+    try {
+      const title = (stripMarkup(fieldInputValue(content[fields[0]?.key])) || "ad").replace(/\s+/g, "_").toLowerCase();
+      const zip = new JSZip();
+
+      // Render off-screen at each format's full size
+      for (let index = 0; index < formats.length; index++) {
+        const canvas = document.createElement("canvas");
+        canvas.width = formats[index].width;
+        canvas.height = formats[index].height;
+        const renderer = new CanvasRenderer(canvas);
+        await renderer.loadTemplate(templateImageUrl(templateId, formats[index]));
+        await renderer.loadAssets(configs[index]!);
+        renderer.renderWithText(content, configs[index], fields, watermark);
+        zip.file(`${title}_${formats[index].key}.png`, await canvasToBlob(canvas));
+      }
+
+      downloadBlob(await zip.generateAsync({ type: "blob" }), `${title}_formats_${Date.now()}.zip`);
+      toast({ title: "Export Complete", description: `${formats.length} format${formats.length === 1 ? "" : "s"} exported.` });
+    } catch (error) {
+      console.error("Format export failed:", error);
+      toast({ title: "Export Error", description: "Failed to export the formats. Please try again.", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <LayoutGrid className="h-5 w-5 text-primary" />
+            <h2 className="text-lg font-semibold text-card-foreground">Formats</h2>
+          </div>
+          <Button
+            onClick={handleExportAll}
+            disabled={!isReady || isExporting}
+            size="sm"
+            data-testid="button-export-formats"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {isExporting ? "Rendering..." : `Export All (${formats.length})`}
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          {formats.map((format, index) => (
+            <button
+              key={format.key}
+              type="button"
+              onClick={() => onFormatSelect(format.key)}
+              className={`flex flex-col items-center gap-1 rounded-md p-2 border-2 ${
+                format.key === activeFormatKey ? "border-primary" : "border-transparent hover:border-border"
+              }`}
+              data-testid={`button-select-format-${format.key}`}
+            >
+              <FormatPreview
+                templateId={templateId}
+                format={format}
+                content={content}
+                fields={fields}
+                config={configs[index]}
+                watermark={watermark}
+              />
+              <span className="text-xs text-muted-foreground">
+                {format.label} · {format.width}×{format.height}
+              </span>
+            </button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState, useCallback } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ImagePlus, Plus, Trash2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { readFileAsDataUrl } from "@/lib/files";
+import { optionalOffset, optionalPercent } from "@/lib/number-inputs";
+import { getImageLayers } from "@shared/ad-renderer";
+import { assetUploadSchema, imageFits, type Asset, type ImageFit, type ImageLayerConfig, type TextConfig } from "@shared/schema";
+
+interface ImageLayersEditorProps {
+  config: TextConfig;
+  onConfigChange: (config: TextConfig) => void;
+}
+
+const FIT_LABELS: Record<ImageFit, string> = {
+  contain: 'Fit inside',
+  cover: 'Fill and crop',
+  fill: 'Stretch',
+};
+
+// New layers start as a square box; contain keeps the image's own proportions inside it
+const NEW_LAYER: Omit<ImageLayerConfig, "assetId"> = { kind: "image", x: 100, y: 100, width: 400, height: 400, fit: "contain" };
+
+// Field keys can't contain dashes, so these never clash with a text layer
+function nextLayerKey(config: TextConfig): string {
+  const numbers = getImageLayers(config).map(({ key }) => Number(/^image-(\d+)$/.exec(key)?.[1] ?? 0));
+  return `image-${Math.max(0, ...numbers) + 1}`;
+}
+
+export function ImageLayersEditor({ config, onConfigChange }: ImageLayersEditorProps) {
+  const { toast } = useToast();
+  const [assetId, setAssetId] = useState<number | null>(null);
+  const layers = getImageLayers(config);
+
+  const { data: assets = [] } = useQuery<Asset[]>({
+    queryKey: ['/api/assets'],
+  });
+  // Falls back to the first asset once the picked one is deleted
+  const pickedAsset = assets.find((asset) => asset.id === assetId) ?? assets[0];
+
+  const addLayer = useCallback((asset: Asset) => {
+    onConfigChange({ ...config, [nextLayerKey(config)]: { ...NEW_LAYER, assetId: asset.id } });
+  }, [config, onConfigChange]);
+
+  const handleLayerChange = useCallback((key: string, layer: ImageLayerConfig, changes: Partial<ImageLayerConfig>) => {
+    onConfigChange({ ...config, [key]: { ...layer, ...changes } });
+  }, [config, onConfigChange]);
+
+  const handleRemove = useCallback((key: string) => {
+    const { [key]: _removed, ...rest } = config;
+    onConfigChange(rest);
+  }, [config, onConfigChange]);
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const validation = assetUploadSchema.safeParse({
+        name: file.name.replace(/\.[^.]+$/, ""),
+        image: await readFileAsDataUrl(file),
+      });
+      if (!validation.success) throw new Error(validation.error.issues[0].message);
+
+      const res = await apiRequest('POST', '/api/assets', validation.data);
+      return await res.json() as Asset;
+    },
+    onSuccess: (asset) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assets'] });
+      setAssetId(asset.id);
+      addLayer(asset);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Upload Error", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/assets/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/assets'] });
+    },
+    onError: () => {
+      toast({ title: "Delete Error", description: "Failed to delete image.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Image Layers</h3>
+        <div className="flex items-center space-x-2">
+          {pickedAsset && (
+            <>
+              <Select value={String(pickedAsset.id)} onValueChange={(value) => setAssetId(Number(value))}>
+                <SelectTrigger className="w-48" data-testid="select-asset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {assets.map((asset) => (
+                    <SelectItem key={asset.id} value={String(asset.id)}>{asset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={() => addLayer(pickedAsset)} data-testid="button-add-image-layer">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Layer
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => deleteMutation.mutate(pickedAsset.id)}
+                disabled={deleteMutation.isPending}
+                data-testid="button-delete-asset"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          <Button variant="outline" size="sm" asChild>
+            <label className="cursor-pointer" data-testid="button-upload-asset">
+              <Upload className="w-4 h-4 mr-2" />
+              {uploadMutation.isPending ? "Uploading..." : "Upload Image"}
+              <input
+                type="file"
+                accept="image/png,image/jpeg,image/webp"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) uploadMutation.mutate(file);
+                  e.target.value = "";
+                }}
+                data-testid="input-asset-file"
+              />
+            </label>
+          </Button>
+        </div>
+      </div>
+
+      {layers.length === 0 && (
+        <p className="flex items-center text-sm text-muted-foreground">
+          <ImagePlus className="w-4 h-4 mr-2" />
+          Upload a logo, photo or QR code to place it on the layout.
+        </p>
+      )}
+
+      <div className="grid gap-6">
+        {layers.map(({ key, layer }) => {
+          const asset = assets.find((candidate) => candidate.id === layer.assetId);
+
+          return (
+            <Card key={key}>
+              <CardHeader>
+                <CardTitle className="text-sm flex items-center justify-between">
+                  {asset ? asset.name : <span className="text-destructive">Deleted image</span>}
+                  <Button variant="outline" size="sm" onClick={() => handleRemove(key)} data-testid={`button-remove-${key}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-4 gap-4">
+                  <div>
+                    <Label htmlFor={`${key}-x`}>Left (px)</Label>
+                    <Input
+                      id={`${key}-x`}
+                      type="number"
+                      value={layer.x}
+                      onChange={(e) => handleLayerChange(key, layer, { x: parseInt(e.target.value) || 0 })}
+                      data-testid={`input-${key}-x`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-y`}>Top (px)</Label>
+                    <Input
+                      id={`${key}-y`}
+                      type="number"
+                      value={layer.y}
+                      onChange={(e) => handleLayerChange(key, layer, { y: parseInt(e.target.value) || 0 })}
+                      data-testid={`input-${key}-y`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-width`}>Width (px)</Label>
+                    <Input
+                      id={`${key}-width`}
+                      type="number"
+                      min={1}
+                      value={layer.width}
+                      onChange={(e) => handleLayerChange(key, layer, { width: Math.max(1, parseInt(e.target.value) || 1) })}
+                      data-testid={`input-${key}-width`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-height`}>Height (px)</Label>
+                    <Input
+                      id={`${key}-height`}
+                      type="number"
+                      min={1}
+                      value={layer.height}
+                      onChange={(e) => handleLayerChange(key, layer, { height: Math.max(1, parseInt(e.target.value) || 1) })}
+                      data-testid={`input-${key}-height`}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-4 gap-4">
+                  <div>
+                    <Label>Image</Label>
+                    <Select
+                      value={asset ? String(asset.id) : ''}
+                      onValueChange={(value) => handleLayerChange(key, layer, { assetId: Number(value) })}
+                    >
+                      <SelectTrigger data-testid={`select-${key}-asset`}>
+                        <SelectValue placeholder="Choose an image" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {assets.map((option) => (
+                          <SelectItem key={option.id} value={String(option.id)}>{option.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Fit</Label>
+                    <Select
+                      value={layer.fit}
+                      onValueChange={(value) => handleLayerChange(key, layer, { fit: value as ImageFit })}
+                    >
+                      <SelectTrigger data-testid={`select-${key}-fit`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {imageFits.map((fit) => (
+                          <SelectItem key={fit} value={fit}>{FIT_LABELS[fit]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-opacity`}>Opacity (%)</Label>
+                    <Input
+                      id={`${key}-opacity`}
+                      type="number"
+                      min={0}
+                      max={100}
+                      placeholder="100"
+                      value={layer.opacity === undefined ? '' : Math.round(layer.opacity * 100)}
+                      onChange={(e) => handleLayerChange(key, layer, { opacity: optionalPercent(e.target.value) })}
+                      data-testid={`input-${key}-opacity`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-z-index`}>Layer Order</Label>
+                    <Input
+                      id={`${key}-z-index`}
+                      type="number"
+                      min={-100}
+                      max={100}
+                      placeholder="0"
+                      value={layer.zIndex ?? ''}
+                      onChange={(e) => handleLayerChange(key, layer, { zIndex: optionalOffset(e.target.value) })}
+                      data-testid={`input-${key}-z-index`}
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
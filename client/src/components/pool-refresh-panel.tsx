@@ -0,0 +1,124 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { type AdValueChange, type FieldValue, type PoolSource, type SelectAdContent, type Template } from "@shared/schema";
+import { fieldInputValue, formatFieldValue, getPoolField, getTemplateFields } from "@shared/fields";
+import { hasPermission } from "@shared/permissions";
+
+interface PoolRefreshPanelProps {
+  ad: SelectAdContent;
+}
+
+// Scheduled refreshes run on the server; check for new figures this often while the ad is open
+const CHANGES_POLL_MS = 60_000;
+
+export function PoolRefreshPanel({ ad }: PoolRefreshPanelProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canEditContent = hasPermission(user, "content:edit");
+  const [sourceKey, setSourceKey] = useState(ad.poolSourceKey ?? "");
+  const adKey = ['/api/ad-content', encodeURIComponent(ad.name)];
+  const changesKey = [...adKey, 'value-changes'];
+
+  // Figures are written with the ad template's currency format
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ['/api/templates'],
+  });
+  const poolField = getPoolField(getTemplateFields(templates.find((template) => template.id === ad.templateId)));
+  const formatChange = (value: FieldValue) => (poolField ? formatFieldValue(poolField, value) : fieldInputValue(value));
+
+  useEffect(() => {
+    setSourceKey(ad.poolSourceKey ?? "");
+  }, [ad.name, ad.poolSourceKey]);
+
+  const { data: changes = [] } = useQuery<AdValueChange[]>({
+    queryKey: changesKey,
+    refetchInterval: ad.poolSourceKey ? CHANGES_POLL_MS : false,
+  });
+
+  // A new refresh changed the stored pool, so reload the ad the form and preview show
+  const latestChangeId = changes[0]?.id;
+  useEffect(() => {
+    if (latestChangeId !== undefined) {
+      queryClient.invalidateQueries({ queryKey: adKey, exact: true });
+      queryClient.invalidateQueries({ queryKey: ['/api/ad-contents'] });
+    }
+  }, [latestChangeId]);
+
+  const sourceMutation = useMutation({
+    mutationFn: (source: PoolSource) =>
+      apiRequest('PUT', `/api/ad-content/${encodeURIComponent(ad.name)}/pool-source`, source),
+    onSuccess: (_res, source) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ad-contents'] });
+      toast({
+        title: source.sourceKey ? "Live Pool On" : "Live Pool Off",
+        description: source.sourceKey ? `Projected pool follows "${source.sourceKey}".` : "Projected pool is no longer refreshed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Live Pool Error", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center space-x-2">
+          <RefreshCw className="h-5 w-5 text-primary" />
+          <h2 className="text-lg font-semibold text-card-foreground">Live Pool</h2>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="pool-source-key">Meeting key in the pool feed</Label>
+          <div className="flex items-center space-x-2">
+            <Input
+              id="pool-source-key"
+              value={sourceKey}
+              onChange={(e) => setSourceKey(e.target.value)}
+              placeholder="e.g. RAND-20261024"
+              disabled={!canEditContent || !poolField}
+              data-testid="input-pool-source-key"
+            />
+            {canEditContent && (
+              <Button
+                size="sm"
+                onClick={() => sourceMutation.mutate({ sourceKey: sourceKey.trim() || null })}
+                disabled={sourceMutation.isPending || sourceKey.trim() === (ad.poolSourceKey ?? "") || (!poolField && !!sourceKey.trim())}
+                data-testid="button-save-pool-source"
+              >
+                {sourceKey.trim() ? "Follow" : "Stop"}
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {poolField
+              ? "The server refreshes the projected pool on a schedule and re-renders the ad when it changes."
+              : "This ad's template has no projected pool amount to follow."}
+          </p>
+        </div>
+
+        {changes.length > 0 && (
+          <ul className="space-y-2 border-t border-border pt-4 text-sm">
+            {changes.map((change) => (
+              <li key={change.id} className="flex items-center justify-between" data-testid={`value-change-${change.id}`}>
+                <span>
+                  {change.fromValue === null ? "—" : formatChange(change.fromValue)} → {formatChange(change.toValue)}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(change.createdAt).toLocaleString()} · {change.source}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { type FieldValue, type RaceCardImport, type RaceCardUpload, type SelectAdContent } from "@shared/schema";
+import { DEFAULT_FIELDS } from "@shared/defaults";
+import { fieldInputValue, formatFieldValue } from "@shared/fields";
+import { AD_STATUS_LABELS, statusAfterEdit } from "@shared/workflow";
+
+interface RaceCardImportDialogProps {
+  onImported: (names: string[]) => void;
+}
+
+// Race cards fill the built-in fields, so show values the way those fields draw them
+function displayValue(key: string, value: FieldValue | undefined): string {
+  if (value === undefined) return "—";
+  const field = DEFAULT_FIELDS.find((candidate) => candidate.key === key);
+  return field ? formatFieldValue(field, value) : fieldInputValue(value);
+}
+
+export function RaceCardImportDialog({ onImported }: RaceCardImportDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [upload, setUpload] = useState<RaceCardUpload | null>(null);
+  const [plans, setPlans] = useState<RaceCardImport[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const canApply = (plan: RaceCardImport) => plan.errors.length === 0 && plan.changes.length > 0;
+
+  const previewMutation = useMutation({
+    mutationFn: async (file: RaceCardUpload) => {
+      const res = await apiRequest('POST', '/api/race-cards/preview', file);
+      return (await res.json()) as RaceCardImport[];
+    },
+    onSuccess: (result, file) => {
+      setUpload(file);
+      setPlans(result);
+      setSelected(result.filter(canApply).map((plan) => plan.name));
+      setError(null);
+    },
+    onError: (mutationError: Error) => {
+      setUpload(null);
+      setPlans([]);
+      setError(apiErrorMessage(mutationError));
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (file: RaceCardUpload) => {
+      const res = await apiRequest('POST', '/api/race-cards/apply', file);
+      return (await res.json()) as SelectAdContent[];
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ad-contents'] });
+      for (const ad of saved) {
+        queryClient.invalidateQueries({ queryKey: ['/api/ad-content', encodeURIComponent(ad.name)] });
+      }
+      setOpen(false);
+      onImported(saved.map((ad) => ad.name));
+      toast({ title: "Race Card Imported", description: `${saved.length} ad(s) created or updated.` });
+    },
+    onError: (mutationError: Error) => {
+      setError(apiErrorMessage(mutationError));
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    previewMutation.mutate({ fileName: file.name, data: await file.text() });
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setUpload(null);
+      setPlans([]);
+      setError(null);
+    }
+  };
+
+  const toggle = (name: string, checked: boolean) => {
+    setSelected(checked ? [...selected, name] : selected.filter((candidate) => candidate !== name));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-import-race-card">
+          <Upload className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Race Card</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="race-card-file">JSON or XML race meeting export</Label>
+            <Input
+              id="race-card-file"
+              type="file"
+              accept=".json,.xml"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              data-testid="input-race-card-file"
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {plans.map((plan) => (
+            <div key={plan.name} className="space-y-2 border-t border-border pt-4" data-testid={`race-card-plan-${plan.name}`}>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  checked={selected.includes(plan.name)}
+                  onCheckedChange={(checked) => toggle(plan.name, checked === true)}
+                  disabled={!canApply(plan)}
+                />
+                <span className="font-medium">{plan.name}</span>
+                <Badge variant={plan.exists ? "secondary" : "default"}>{plan.exists ? "Update" : "New"}</Badge>
+                {plan.status && statusAfterEdit(plan.status) !== plan.status && plan.changes.length > 0 && (
+                  <span className="text-xs text-muted-foreground">
+                    {AD_STATUS_LABELS[plan.status]}; goes back to review
+                  </span>
+                )}
+              </div>
+
+              {plan.errors.length > 0 ? (
+                <p className="text-sm text-destructive">{plan.errors.join("; ")}</p>
+              ) : plan.changes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Already up to date</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Current</TableHead>
+                      <TableHead>Imported</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.changes.map((change) => (
+                      <TableRow key={change.field}>
+                        <TableCell>{change.label}</TableCell>
+                        <TableCell className="text-muted-foreground">{displayValue(change.field, change.from)}</TableCell>
+                        <TableCell>{displayValue(change.field, change.to)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => upload && applyMutation.mutate({ ...upload, names: selected })}
+            disabled={!upload || selected.length === 0 || applyMutation.isPending}
+            data-testid="button-apply-race-card"
+          >
+            {applyMutation.isPending ? "Importing..." : `Import ${selected.length} Ad(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,7 @@ import { forwardRef } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Eye, Image, Download, RefreshCw, ZoomIn } from "lucide-react";
+import { DEFAULT_CANVAS_HEIGHT, DEFAULT_CANVAS_WIDTH } from "@shared/ad-renderer";
 
 interface SharedCanvasProps {
   status: {
@@ -11,10 +12,12 @@ interface SharedCanvasProps {
   onDownload: () => void;
   onReset?: () => void;
   showResetButton?: boolean;
+  width?: number;
+  height?: number;
 }
 
 export const SharedCanvas = forwardRef<HTMLCanvasElement, SharedCanvasProps>(
-  ({ status, onDownload, onReset, showResetButton = true }, ref) => {
+  ({ status, onDownload, onReset, showResetButton = true, width = DEFAULT_CANVAS_WIDTH, height = DEFAULT_CANVAS_HEIGHT }, ref) => {
     return (
       <Card>
         <CardContent className="pt-6">
@@ -39,8 +42,8 @@ export const SharedCanvas = forwardRef<HTMLCanvasElement, SharedCanvasProps>(
           <div className="canvas-container bg-muted/20 border-2 border-dashed border-border rounded-lg p-4">
             <canvas
               ref={ref}
-              width={1920}
-              height={1080}
+              width={width}
+              height={height}
               className="w-full h-auto bg-white rounded border border-border shadow-sm"
               data-testid="canvas-preview"
             />
@@ -51,7 +54,7 @@ export const SharedCanvas = forwardRef<HTMLCanvasElement, SharedCanvasProps>(
             <div className="flex items-center space-x-4 text-sm text-muted-foreground">
               <div className="flex items-center space-x-1">
                 <Image className="h-4 w-4" />
-                <span>1920×1080</span>
+                <span>{width}×{height}</span>
               </div>
               <div className="flex items-center space-x-1">
                 <span className="w-3 h-3 bg-gradient-to-r from-red-500 via-green-500 to-blue-500 rounded-full"></span>
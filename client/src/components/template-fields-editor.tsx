@@ -0,0 +1,289 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ListPlus, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { getTemplateFields } from "@shared/fields";
+import { fieldDefinitionsSchema, fieldTypes, type CurrencyFormat, type FieldDefinition, type FieldType, type Template } from "@shared/schema";
+import { DEFAULT_CURRENCY } from "@shared/currency";
+import { DEFAULT_DATE_PATTERN } from "@shared/dates";
+
+interface TemplateFieldsEditorProps {
+  template: Template;
+}
+
+const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  currency: 'Currency',
+  datetime: 'Date & Time',
+};
+
+// Currency format options; "default" leaves the setting out so the renderer's default applies
+const NOTATION_LABELS = { default: 'Full ($50,000)', compact: 'Compact ($1.2M)' };
+const DISPLAY_LABELS = { default: 'Symbol ($)', code: 'Code (AUD)', none: 'No symbol' };
+const DECIMALS_OPTIONS = ["default", "0", "1", "2"];
+
+export function TemplateFieldsEditor({ template }: TemplateFieldsEditorProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [fields, setFields] = useState<FieldDefinition[]>(getTemplateFields(template));
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the stored definitions each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFields(getTemplateFields(template));
+      setError(null);
+    }
+  }, [open, template]);
+
+  const saveMutation = useMutation({
+    mutationFn: (definitions: FieldDefinition[]) => apiRequest('PUT', `/api/templates/${template.id}/fields`, definitions),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      setOpen(false);
+      toast({ title: "Fields Saved", description: `Content fields for "${template.name}" have been updated.` });
+    },
+    onError: () => {
+      toast({ title: "Save Error", description: "Failed to save fields.", variant: "destructive" });
+    },
+  });
+
+  const updateField = (index: number, changes: Partial<FieldDefinition>) => {
+    setFields(fields.map((field, i) => (i === index ? { ...field, ...changes } : field)));
+  };
+
+  const updateCurrencyFormat = (index: number, changes: Partial<CurrencyFormat>) => {
+    const format = { ...fields[index].currencyFormat, ...changes };
+    // Drop settings put back to their default
+    const entries = Object.entries(format).filter(([, value]) => value !== undefined);
+    updateField(index, { currencyFormat: entries.length > 0 ? Object.fromEntries(entries) : undefined });
+  };
+
+  // Blank range inputs leave that end open
+  const parseBound = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+  const handleSave = () => {
+    // Blank settings are stored as absent, as are settings that belong to other field types
+    const definitions = fields.map(({ prefix, suffix, currency, currencyFormat, min, max, integer, dateFormat, relativeDay, ...field }) => ({
+      ...field,
+      ...(prefix ? { prefix } : {}),
+      ...(suffix ? { suffix } : {}),
+      ...(field.type === "currency" && currency ? { currency: currency.toUpperCase() } : {}),
+      ...(field.type === "currency" && currencyFormat ? { currencyFormat } : {}),
+      ...(field.type === "number" && min !== undefined ? { min } : {}),
+      ...(field.type === "number" && max !== undefined ? { max } : {}),
+      ...(field.type === "number" && integer ? { integer } : {}),
+      ...(field.type === "datetime" && dateFormat ? { dateFormat } : {}),
+      ...(field.type === "datetime" && relativeDay ? { relativeDay } : {}),
+    }));
+
+    const validation = fieldDefinitionsSchema.safeParse(definitions);
+    if (!validation.success) {
+      setError(validation.error.issues[0].message);
+      return;
+    }
+
+    setError(null);
+    saveMutation.mutate(validation.data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-edit-template-fields">
+          <ListPlus className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Content Fields · {template.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-[1fr_1.5fr_7rem_1fr_4rem_4rem_2.5rem] gap-2 text-xs text-muted-foreground">
+            <Label>Key</Label>
+            <Label>Label</Label>
+            <Label>Type</Label>
+            <Label>Default</Label>
+            <Label>Prefix</Label>
+            <Label>Suffix</Label>
+            <span />
+          </div>
+          {fields.map((field, index) => (
+            <div key={index} className="space-y-2">
+              <div className="grid grid-cols-[1fr_1.5fr_7rem_1fr_4rem_4rem_2.5rem] gap-2">
+                <Input
+                  value={field.key}
+                  onChange={(e) => updateField(index, { key: e.target.value })}
+                  data-testid={`input-field-${index}-key`}
+                />
+                <Input
+                  value={field.label}
+                  onChange={(e) => updateField(index, { label: e.target.value })}
+                  data-testid={`input-field-${index}-label`}
+                />
+                <Select value={field.type} onValueChange={(value) => updateField(index, { type: value as FieldType })}>
+                  <SelectTrigger data-testid={`select-field-${index}-type`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fieldTypes.map((type) => (
+                      <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={field.default}
+                  onChange={(e) => updateField(index, { default: e.target.value })}
+                  data-testid={`input-field-${index}-default`}
+                />
+                <Input
+                  value={field.prefix ?? ""}
+                  onChange={(e) => updateField(index, { prefix: e.target.value })}
+                  data-testid={`input-field-${index}-prefix`}
+                />
+                <Input
+                  value={field.suffix ?? ""}
+                  onChange={(e) => updateField(index, { suffix: e.target.value })}
+                  data-testid={`input-field-${index}-suffix`}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFields(fields.filter((_, i) => i !== index))}
+                  data-testid={`button-remove-field-${index}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {field.type === "currency" && (
+                <div className="grid grid-cols-[1fr_1.5fr_7rem_1fr_4rem_4rem_2.5rem] gap-2 items-center">
+                  <Label className="text-xs text-muted-foreground text-right">Currency</Label>
+                  <Select
+                    value={field.currencyFormat?.notation ?? "default"}
+                    onValueChange={(value) => updateCurrencyFormat(index, { notation: value === "default" ? undefined : "compact" })}
+                  >
+                    <SelectTrigger data-testid={`select-field-${index}-notation`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(NOTATION_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={field.currencyFormat?.display ?? "default"}
+                    onValueChange={(value) => updateCurrencyFormat(index, { display: value === "default" ? undefined : value as CurrencyFormat["display"] })}
+                  >
+                    <SelectTrigger data-testid={`select-field-${index}-display`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DISPLAY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={field.currencyFormat?.decimals?.toString() ?? "default"}
+                    onValueChange={(value) => updateCurrencyFormat(index, { decimals: value === "default" ? undefined : Number(value) })}
+                  >
+                    <SelectTrigger data-testid={`select-field-${index}-decimals`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DECIMALS_OPTIONS.map((value) => (
+                        <SelectItem key={value} value={value}>{value === "default" ? "Auto decimals" : `${value} decimals`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={field.currency ?? ""}
+                    onChange={(e) => updateField(index, { currency: e.target.value })}
+                    placeholder={DEFAULT_CURRENCY}
+                    maxLength={3}
+                    data-testid={`input-field-${index}-currency`}
+                  />
+                </div>
+              )}
+              {field.type === "number" && (
+                <div className="grid grid-cols-[1fr_1.5fr_7rem_1fr_4rem_4rem_2.5rem] gap-2 items-center">
+                  <Label className="text-xs text-muted-foreground text-right">Range</Label>
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      type="number"
+                      value={field.min ?? ""}
+                      onChange={(e) => updateField(index, { min: parseBound(e.target.value) })}
+                      placeholder="Min"
+                      data-testid={`input-field-${index}-min`}
+                    />
+                    <Input
+                      type="number"
+                      value={field.max ?? ""}
+                      onChange={(e) => updateField(index, { max: parseBound(e.target.value) })}
+                      placeholder="Max"
+                      data-testid={`input-field-${index}-max`}
+                    />
+                  </div>
+                  <label className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={!!field.integer}
+                      onCheckedChange={(checked) => updateField(index, { integer: checked === true })}
+                      data-testid={`checkbox-field-${index}-integer`}
+                    />
+                    <span>Whole</span>
+                  </label>
+                </div>
+              )}
+              {field.type === "datetime" && (
+                <div className="grid grid-cols-[1fr_1.5fr_7rem_1fr_4rem_4rem_2.5rem] gap-2 items-center">
+                  <Label className="text-xs text-muted-foreground text-right">Shown as</Label>
+                  <Input
+                    value={field.dateFormat ?? ""}
+                    onChange={(e) => updateField(index, { dateFormat: e.target.value })}
+                    placeholder={DEFAULT_DATE_PATTERN}
+                    title="date-fns pattern, e.g. EEEE for SATURDAY or EEE d MMM for SAT 14 SEP"
+                    data-testid={`input-field-${index}-date-format`}
+                  />
+                  <label className="col-span-2 flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={!!field.relativeDay}
+                      onCheckedChange={(checked) => updateField(index, { relativeDay: checked === true })}
+                      data-testid={`checkbox-field-${index}-relative-day`}
+                    />
+                    <span>Tonight / today / tomorrow</span>
+                  </label>
+                </div>
+              )}
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setFields([...fields, { key: "", label: "", type: "text", default: "" }])}
+            data-testid="button-add-field"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Field
+          </Button>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-template-fields">
+            {saveMutation.isPending ? "Saving..." : "Save Fields"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Trash2, Type, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, apiErrorMessage } from "@/lib/queryClient";
+import { readFileAsDataUrl } from "@/lib/files";
+import { BUILTIN_TEMPLATE_NAME } from "@/lib/templates";
+import { fontLabel, fontsForTemplate, toFontDescriptor } from "@shared/fonts";
+import { fontStyles, fontUploadSchema, type FontStyle, type FontUpload, type SelectFont, type Template } from "@shared/schema";
+
+interface TemplateFontsEditorProps {
+  // Undefined while the built-in template is selected; uploads are then offered everywhere
+  template?: Template;
+}
+
+const WEIGHT_OPTIONS = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+const STYLE_LABELS: Record<FontStyle, string> = {
+  normal: 'Upright',
+  italic: 'Italic',
+};
+
+const EMPTY_UPLOAD: Omit<FontUpload, "file"> = { family: "", weight: 700, style: "normal" };
+
+export function TemplateFontsEditor({ template }: TemplateFontsEditorProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [upload, setUpload] = useState(EMPTY_UPLOAD);
+  const [templateOnly, setTemplateOnly] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: fonts = [] } = useQuery<SelectFont[]>({
+    queryKey: ['/api/fonts'],
+  });
+  const templateName = template?.name ?? BUILTIN_TEMPLATE_NAME;
+  // Only uploaded fonts can be removed; the built-in faces are listed for their licensing notes
+  const available = fontsForTemplate(fonts, template?.id ?? null);
+
+  useEffect(() => {
+    if (open) {
+      setUpload(EMPTY_UPLOAD);
+      setTemplateOnly(false);
+      setFile(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      if (!file) throw new Error("No file selected");
+      const body: FontUpload = {
+        ...upload,
+        templateId: templateOnly && template ? template.id : null,
+        file: await readFileAsDataUrl(file),
+      };
+      const validation = fontUploadSchema.safeParse(body);
+      if (!validation.success) throw new Error(validation.error.issues[0].message);
+
+      const res = await apiRequest('POST', '/api/fonts', validation.data);
+      return await res.json() as SelectFont;
+    },
+    onSuccess: (font) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/fonts'] });
+      setUpload(EMPTY_UPLOAD);
+      setFile(null);
+      setError(null);
+      toast({ title: "Font Uploaded", description: `"${fontLabel(toFontDescriptor(font))}" is ready to use.` });
+    },
+    onError: (uploadError: Error) => {
+      setError(apiErrorMessage(uploadError));
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/fonts/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/fonts'] });
+    },
+    onError: () => {
+      toast({ title: "Delete Error", description: "Failed to delete font.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-edit-template-fonts">
+          <Type className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Fonts · {templateName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {available.map((font) => (
+            <div key={font.name} className="flex items-start justify-between text-sm" data-testid={`font-${font.name}`}>
+              <div>
+                <span>{fontLabel(font)}</span>
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {font.id === undefined ? "built-in" : font.templateId === null ? "all templates" : "this template"}
+                </span>
+                {font.license && <p className="text-xs text-muted-foreground">{font.license}</p>}
+              </div>
+              {font.id !== undefined && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(font.id!)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-font-${font.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-4 border-t border-border pt-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="font-family">Family</Label>
+              <Input
+                id="font-family"
+                value={upload.family}
+                onChange={(e) => setUpload({ ...upload, family: e.target.value })}
+                placeholder="e.g. Sponsor Sans"
+                data-testid="input-font-family"
+              />
+            </div>
+            <div>
+              <Label>Weight</Label>
+              <Select value={String(upload.weight)} onValueChange={(value) => setUpload({ ...upload, weight: Number(value) })}>
+                <SelectTrigger data-testid="select-font-weight">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEIGHT_OPTIONS.map((weight) => (
+                    <SelectItem key={weight} value={String(weight)}>{weight}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Style</Label>
+              <Select value={upload.style} onValueChange={(value) => setUpload({ ...upload, style: value as FontStyle })}>
+                <SelectTrigger data-testid="select-font-style">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {fontStyles.map((style) => (
+                    <SelectItem key={style} value={style}>{STYLE_LABELS[style]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="font-file">Font File</Label>
+            <Input
+              id="font-file"
+              type="file"
+              accept=".otf,.ttf,.woff2,font/otf,font/ttf,font/woff2"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              data-testid="input-font-file"
+            />
+          </div>
+          <div>
+            <Label htmlFor="font-license">Licensing Notes</Label>
+            <Textarea
+              id="font-license"
+              value={upload.license ?? ""}
+              onChange={(e) => setUpload({ ...upload, license: e.target.value || undefined })}
+              placeholder="e.g. Licensed to the sponsor for print and digital ads until 2027"
+              data-testid="input-font-license"
+            />
+          </div>
+          {template && (
+            <label className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={templateOnly}
+                onCheckedChange={(checked) => setTemplateOnly(checked === true)}
+                data-testid="checkbox-font-template-only"
+              />
+              <span>Only offer on "{template.name}"</span>
+            </label>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={() => uploadMutation.mutate()}
+            disabled={!upload.family.trim() || !file || uploadMutation.isPending}
+            data-testid="button-submit-font"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {uploadMutation.isPending ? "Uploading..." : "Upload Font"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
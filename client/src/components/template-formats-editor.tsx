@@ -0,0 +1,204 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Plus, Ratio, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { readFileAsDataUrl } from "@/lib/files";
+import { FORMAT_PRESETS, PRIMARY_FORMAT } from "@shared/formats";
+import { templateFormatUploadSchema, type Template, type TemplateFormat } from "@shared/schema";
+
+interface TemplateFormatsEditorProps {
+  template: Template;
+}
+
+const CUSTOM_PRESET = "custom";
+
+const EMPTY_FORMAT: TemplateFormat = { key: "", label: "", width: 1080, height: 1080 };
+
+export function TemplateFormatsEditor({ template }: TemplateFormatsEditorProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<TemplateFormat>(EMPTY_FORMAT);
+  const [file, setFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFormat(EMPTY_FORMAT);
+      setFile(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (upload: TemplateFormat) => {
+      const image = file ? await readFileAsDataUrl(file) : undefined;
+      return apiRequest('POST', `/api/templates/${template.id}/formats`, { ...upload, image });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      setFormat(EMPTY_FORMAT);
+      setFile(null);
+      toast({ title: "Format Saved", description: `"${format.label}" is available on "${template.name}".` });
+    },
+    onError: () => {
+      toast({ title: "Save Error", description: "Failed to save format.", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (key: string) => apiRequest('DELETE', `/api/templates/${template.id}/formats/${key}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+    },
+    onError: () => {
+      toast({ title: "Delete Error", description: "Failed to delete format.", variant: "destructive" });
+    },
+  });
+
+  const handlePreset = (value: string) => {
+    setFormat(FORMAT_PRESETS.find((preset) => preset.key === value) ?? EMPTY_FORMAT);
+  };
+
+  const handleSave = () => {
+    const validation = templateFormatUploadSchema.safeParse(format);
+    if (!validation.success) {
+      setError(validation.error.issues[0].message);
+      return;
+    }
+    if (validation.data.key === PRIMARY_FORMAT.key) {
+      setError(`"${PRIMARY_FORMAT.key}" is the template's own image`);
+      return;
+    }
+
+    setError(null);
+    saveMutation.mutate(validation.data);
+  };
+
+  const presetValue = FORMAT_PRESETS.some((preset) => preset.key === format.key) ? format.key : CUSTOM_PRESET;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-edit-template-formats">
+          <Ratio className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Output Formats · {template.name}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span>{PRIMARY_FORMAT.label}</span>
+            <span className="text-muted-foreground">{PRIMARY_FORMAT.width}×{PRIMARY_FORMAT.height} · template image</span>
+          </div>
+          {(template.formats ?? []).map((existing) => (
+            <div key={existing.key} className="flex items-center justify-between text-sm">
+              <span>{existing.label}</span>
+              <div className="flex items-center space-x-2">
+                <span className="text-muted-foreground">
+                  {existing.width}×{existing.height} · {existing.fileName ? "own background" : "plain background"}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(existing.key)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-format-${existing.key}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-4 border-t border-border pt-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Preset</Label>
+              <Select value={presetValue} onValueChange={handlePreset}>
+                <SelectTrigger data-testid="select-format-preset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORMAT_PRESETS.map((preset) => (
+                    <SelectItem key={preset.key} value={preset.key}>
+                      {preset.label} ({preset.width}×{preset.height})
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_PRESET}>Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="format-key">Key</Label>
+              <Input
+                id="format-key"
+                value={format.key}
+                onChange={(e) => setFormat({ ...format, key: e.target.value })}
+                data-testid="input-format-key"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="format-label">Label</Label>
+              <Input
+                id="format-label"
+                value={format.label}
+                onChange={(e) => setFormat({ ...format, label: e.target.value })}
+                data-testid="input-format-label"
+              />
+            </div>
+            <div>
+              <Label htmlFor="format-width">Width</Label>
+              <Input
+                id="format-width"
+                type="number"
+                value={format.width}
+                onChange={(e) => setFormat({ ...format, width: parseInt(e.target.value) || 0 })}
+                data-testid="input-format-width"
+              />
+            </div>
+            <div>
+              <Label htmlFor="format-height">Height</Label>
+              <Input
+                id="format-height"
+                type="number"
+                value={format.height}
+                onChange={(e) => setFormat({ ...format, height: parseInt(e.target.value) || 0 })}
+                data-testid="input-format-height"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="format-file">Background Image (optional)</Label>
+            <Input
+              id="format-file"
+              type="file"
+              accept="image/png,image/jpeg,image/webp"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              data-testid="input-format-file"
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-template-format">
+            <Plus className="w-4 h-4 mr-2" />
+            {saveMutation.isPending ? "Saving..." : "Save Format"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
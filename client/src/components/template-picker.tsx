@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Layers, Trash2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { BUILTIN_TEMPLATE_NAME } from "@/lib/templates";
+import { readFileAsDataUrl } from "@/lib/files";
+import { TemplateFieldsEditor } from "@/components/template-fields-editor";
+import { TemplateFormatsEditor } from "@/components/template-formats-editor";
+import { TemplateFontsEditor } from "@/components/template-fonts-editor";
+import { type Template, type TemplateUpload } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+
+interface TemplatePickerProps {
+  templateId: number | null;
+  onTemplateChange: (templateId: number | null) => void;
+}
+
+const BUILTIN_VALUE = "builtin";
+
+export function TemplatePicker({ templateId, onTemplateChange }: TemplatePickerProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canManage = hasPermission(user, "templates:manage");
+  const [uploadOpen, setUploadOpen] = useState(false);
+  const [upload, setUpload] = useState<Omit<TemplateUpload, "image">>({ name: "" });
+  const [file, setFile] = useState<File | null>(null);
+
+  const { data: templates = [] } = useQuery<Template[]>({
+    queryKey: ['/api/templates'],
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      if (!file) throw new Error("No file selected");
+      const image = await readFileAsDataUrl(file);
+      const res = await apiRequest('POST', '/api/templates', { ...upload, image });
+      return await res.json() as Template;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      onTemplateChange(template.id);
+      setUploadOpen(false);
+      setUpload({ name: "" });
+      setFile(null);
+      toast({ title: "Template Uploaded", description: `"${template.name}" is ready to use.` });
+    },
+    onError: () => {
+      toast({ title: "Upload Error", description: "Failed to upload template.", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/templates/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/templates'] });
+      onTemplateChange(null);
+    },
+    onError: () => {
+      toast({ title: "Delete Error", description: "Failed to delete template.", variant: "destructive" });
+    },
+  });
+
+  const selectedTemplate = templates.find((template) => template.id === templateId);
+
+  const describe = (template: Template) =>
+    [template.track, template.season, template.sponsor].filter(Boolean).join(" · ");
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Layers className="h-5 w-5 text-primary" />
+            <h2 className="text-lg font-semibold text-card-foreground">Template</h2>
+          </div>
+          {canManage && (
+            <Dialog open={uploadOpen} onOpenChange={setUploadOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" size="sm" data-testid="button-upload-template">
+                  <Upload className="w-4 h-4 mr-2" />
+                  Upload
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Upload Template</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div>
+                    <Label htmlFor="template-name">Name</Label>
+                    <Input
+                      id="template-name"
+                      value={upload.name}
+                      onChange={(e) => setUpload({ ...upload, name: e.target.value })}
+                      data-testid="input-template-name"
+                    />
+                  </div>
+                  <div className="grid grid-cols-3 gap-4">
+                    {(["track", "season", "sponsor"] as const).map((key) => (
+                      <div key={key}>
+                        <Label htmlFor={`template-${key}`} className="capitalize">{key}</Label>
+                        <Input
+                          id={`template-${key}`}
+                          value={upload[key] ?? ""}
+                          onChange={(e) => setUpload({ ...upload, [key]: e.target.value || undefined })}
+                          data-testid={`input-template-${key}`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div>
+                    <Label htmlFor="template-file">Background Image</Label>
+                    <Input
+                      id="template-file"
+                      type="file"
+                      accept="image/png,image/jpeg,image/webp"
+                      onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                      data-testid="input-template-file"
+                    />
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button
+                    onClick={() => uploadMutation.mutate()}
+                    disabled={!upload.name || !file || uploadMutation.isPending}
+                    data-testid="button-submit-template"
+                  >
+                    {uploadMutation.isPending ? "Uploading..." : "Upload Template"}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Select
+            value={templateId === null ? BUILTIN_VALUE : String(templateId)}
+            onValueChange={(value) => onTemplateChange(value === BUILTIN_VALUE ? null : Number(value))}
+          >
+            <SelectTrigger data-testid="select-template">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={BUILTIN_VALUE}>{BUILTIN_TEMPLATE_NAME}</SelectItem>
+              {templates.map((template) => (
+                <SelectItem key={template.id} value={String(template.id)}>
+                  {template.name}
+                  {describe(template) && (
+                    <span className="ml-2 text-xs text-muted-foreground">{describe(template)}</span>
+                  )}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {canManage && selectedTemplate && <TemplateFieldsEditor template={selectedTemplate} />}
+          {canManage && selectedTemplate && <TemplateFormatsEditor template={selectedTemplate} />}
+          {canManage && <TemplateFontsEditor template={selectedTemplate} />}
+          {canManage && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => templateId !== null && deleteMutation.mutate(templateId)}
+              disabled={templateId === null || deleteMutation.isPending}
+              data-testid="button-delete-template"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
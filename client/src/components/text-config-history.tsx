@@ -0,0 +1,133 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Eye, EyeOff, History, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { describeChange } from "@shared/revisions";
+import { type SelectTextPositionConfig, type TextConfigRevision } from "@shared/schema";
+
+interface TextConfigHistoryProps {
+  configName: string;
+  previewRevisionId: number | null;
+  onPreview: (revision: TextConfigRevision | null) => void;
+}
+
+// Changes listed per revision before collapsing the rest into a count
+const MAX_CHANGES_SHOWN = 3;
+
+function summarize(revision: TextConfigRevision, isFirst: boolean): string[] {
+  if (isFirst) return ["Created"];
+  if (revision.changes.length === 0) return ["No changes"];
+
+  const shown = revision.changes.slice(0, MAX_CHANGES_SHOWN).map(describeChange);
+  const hidden = revision.changes.length - shown.length;
+  return hidden > 0 ? [...shown, `and ${hidden} more`] : shown;
+}
+
+export function TextConfigHistory({ configName, previewRevisionId, onPreview }: TextConfigHistoryProps) {
+  const { toast } = useToast();
+
+  const { data: revisions = [], isLoading } = useQuery<TextConfigRevision[]>({
+    queryKey: ['/api/text-config', configName, 'revisions'],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (revision: TextConfigRevision) =>
+      apiRequest('POST', `/api/text-config/${configName}/revisions/${revision.id}/restore`),
+    onSuccess: async (res) => {
+      const saved: SelectTextPositionConfig = await res.json();
+      queryClient.setQueryData(['/api/text-config', saved.name], saved.config);
+      queryClient.invalidateQueries({ queryKey: ['/api/text-config', saved.name, 'revisions'] });
+      onPreview(null);
+      toast({ title: "Layout Restored", description: "The selected revision is now the saved layout." });
+    },
+    onError: () => {
+      toast({ title: "Restore Error", description: "Failed to restore that revision.", variant: "destructive" });
+    },
+  });
+
+  const revisionNumber = (revision: TextConfigRevision) => revisions.length - revisions.indexOf(revision);
+
+  return (
+    <Card className="mt-6">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <History className="h-5 w-5 text-primary" />
+            <h2 className="text-lg font-semibold text-card-foreground">History</h2>
+          </div>
+          {previewRevisionId !== null && (
+            <Button variant="outline" size="sm" onClick={() => onPreview(null)} data-testid="button-end-preview">
+              <EyeOff className="w-4 h-4 mr-2" />
+              Stop Preview
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved revisions yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {revisions.map((revision, index) => {
+              const isCurrent = index === 0;
+              const isPreviewing = revision.id === previewRevisionId;
+
+              return (
+                <li
+                  key={revision.id}
+                  className={`rounded-md border p-3 ${isPreviewing ? "border-primary bg-muted/50" : "border-border"}`}
+                  data-testid={`revision-${revision.id}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2 text-sm">
+                      <span className="font-medium">#{revisionNumber(revision)}</span>
+                      <span className="text-muted-foreground">
+                        {new Date(revision.createdAt).toLocaleString()} · {revision.authorName ?? "system"}
+                      </span>
+                      {isCurrent && <Badge variant="secondary">Current</Badge>}
+                      {revision.restoredFromId !== null && (
+                        <Badge variant="outline">
+                          Restored #{revisions.length - revisions.findIndex((r) => r.id === revision.restoredFromId)}
+                        </Badge>
+                      )}
+                    </div>
+                    {!isCurrent && (
+                      <div className="flex items-center space-x-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onPreview(isPreviewing ? null : revision)}
+                          data-testid={`button-preview-revision-${revision.id}`}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => restoreMutation.mutate(revision)}
+                          disabled={restoreMutation.isPending}
+                          data-testid={`button-restore-revision-${revision.id}`}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <ul className="mt-2 text-xs text-muted-foreground space-y-0.5">
+                    {summarize(revision, index === revisions.length - 1).map((line) => (
+                      <li key={line}>{line}</li>
+                    ))}
+                  </ul>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
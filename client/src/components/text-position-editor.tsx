@@ -1,112 +1,153 @@
-import { useState, useCallback } from "react";
+import { useCallback } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Save, RotateCcw } from "lucide-react";
-import { useToast } from "@/hooks/use-toast";
-import { type TextConfig, type TextPositionConfig } from "@shared/schema";
+import { Save, RotateCcw, AlertTriangle } from "lucide-react";
+import { type FieldDefinition, type TextConfig, type TextPositionConfig, type HorizontalAlignment, type VerticalAnchor, type TextOverflowMode, type TextTransform } from "@shared/schema";
+import { getAnchorX, getAnchorY, getFieldPosition, setAlignment, setVerticalAnchor } from "@shared/ad-renderer";
+import { fontLabel, type FontDescriptor } from "@shared/fonts";
+import { optionalNumber, optionalOffset, optionalPercent } from "@/lib/number-inputs";
+import { ImageLayersEditor } from "@/components/image-layers-editor";
 
 interface TextPositionEditorProps {
   config: TextConfig;
   onConfigChange: (config: TextConfig) => void;
   onSave: (config: TextConfig) => void;
+  onDiscard: () => void;
+  isDirty: boolean;
+  isSaving: boolean;
+  isLoading?: boolean;
+  fields: FieldDefinition[];
+  // The built-in and uploaded fonts offered on the current template
+  fonts: FontDescriptor[];
+  overflowingFields?: string[];
 }
 
-const TEXT_FIELDS = [
-  { key: 'raceName' as const, label: 'Race Name' },
-  { key: 'prizeAmount' as const, label: 'Prize Amount' },
-  { key: 'projectedPool' as const, label: 'Projected Pool' },
-  { key: 'day' as const, label: 'Day' },
-  { key: 'numberOfRaces' as const, label: 'Number of Races' },
-];
-
-const FONT_OPTIONS = [
-  'Montserrat-Regular',
-  'Montserrat-Bold', 
-  'Montserrat-BoldItalic',
-  'Montserrat-Black',
-  'Montserrat-BlackItalic',
-];
-
-export function TextPositionEditor({ config, onConfigChange, onSave }: TextPositionEditorProps) {
-  const { toast } = useToast();
-  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+const ALIGNMENT_LABELS: Record<HorizontalAlignment, string> = {
+  left: 'Left',
+  center: 'Center',
+  right: 'Right',
+};
 
+const VERTICAL_ANCHOR_LABELS: Record<VerticalAnchor, string> = {
+  top: 'Top',
+  middle: 'Middle',
+  baseline: 'Baseline',
+  bottom: 'Bottom',
+};
+
+const OVERFLOW_LABELS: Record<TextOverflowMode, string> = {
+  shrink: 'Shrink to fit',
+  wrap: 'Wrap, then shrink',
+};
+
+const TEXT_TRANSFORM_LABELS: Record<TextTransform, string> = {
+  none: 'As typed',
+  uppercase: 'UPPERCASE',
+};
+
+// Effect colours start black when switched on
+const DEFAULT_EFFECT_COLOR = '#000000';
+
+export function TextPositionEditor({ config, onConfigChange, onSave, onDiscard, isDirty, isSaving, isLoading = false, fields, fonts, overflowingFields = [] }: TextPositionEditorProps) {
   // Handle field changes with immediate preview
   const handleFieldChange = useCallback((
-    fieldKey: keyof TextConfig,
+    fieldKey: string,
     property: keyof TextPositionConfig,
-    value: string | number
+    value: string | number | undefined
   ) => {
     const updatedConfig = {
       ...config,
       [fieldKey]: {
-        ...config[fieldKey],
+        ...getFieldPosition(config, fieldKey),
         [property]: value,
       }
     };
 
-    setHasUnsavedChanges(true);
     onConfigChange(updatedConfig); // Immediate preview update
   }, [config, onConfigChange]);
 
-  // Manual save function
+  // Anchor switches move the coordinate to the matching property
+  const handleAnchorChange = useCallback((fieldKey: string, position: TextPositionConfig) => {
+    onConfigChange({ ...config, [fieldKey]: position });
+  }, [config, onConfigChange]);
+
+  // Manual save function; dirty state clears once the server confirms
   const handleSave = useCallback(() => {
     onSave(config);
-    setHasUnsavedChanges(false);
-    toast({
-      title: "Settings Saved",
-      description: "Text positioning settings have been saved.",
-    });
-  }, [config, onSave, toast]);
+  }, [config, onSave]);
+
+  const saveLabel = isSaving ? "Saving..." : isDirty ? "Save Changes" : "Saved";
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold">Text Position Settings</h3>
-        <Button 
-          onClick={handleSave}
-          disabled={!hasUnsavedChanges}
-          size="sm"
-          data-testid="button-save-positioning"
-        >
-          <Save className="w-4 h-4 mr-2" />
-          {hasUnsavedChanges ? "Save Changes" : "Saved"}
-        </Button>
+        <div className="flex items-center space-x-2">
+          <Button
+            onClick={onDiscard}
+            disabled={!isDirty || isSaving}
+            variant="outline"
+            size="sm"
+            data-testid="button-discard-positioning"
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Discard
+          </Button>
+          <Button 
+            onClick={handleSave}
+            disabled={!isDirty || isSaving || isLoading}
+            size="sm"
+            data-testid="button-save-positioning"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {isLoading ? "Loading..." : saveLabel}
+          </Button>
+        </div>
       </div>
 
       <div className="grid gap-6">
-        {TEXT_FIELDS.map(({ key, label }) => {
-          const fieldConfig = config[key];
-          
+        {fields.map(({ key, label }) => {
+          const fieldConfig = getFieldPosition(config, key);
+          const selectedFont = fonts.find((font) => font.name === fieldConfig.fontFamily);
+
           return (
             <Card key={key}>
               <CardHeader>
-                <CardTitle className="text-sm">{label}</CardTitle>
+                <CardTitle className="text-sm flex items-center justify-between">
+                  {label}
+                  {overflowingFields.includes(key) && (
+                    <span className="flex items-center text-xs font-normal text-destructive" data-testid={`warning-${key}-overflow`}>
+                      <AlertTriangle className="w-4 h-4 mr-1" />
+                      Overflows its box at the minimum font size
+                    </span>
+                  )}
+                </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
                 {/* Position Controls */}
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label htmlFor={`${key}-left`}>Left Position (px)</Label>
+                    <Label htmlFor={`${key}-x`}>{ALIGNMENT_LABELS[fieldConfig.alignment]} Position (px)</Label>
                     <Input
-                      id={`${key}-left`}
+                      id={`${key}-x`}
                       type="number"
-                      value={fieldConfig.left}
-                      onChange={(e) => handleFieldChange(key, 'left', parseInt(e.target.value) || 0)}
-                      data-testid={`input-${key}-left`}
+                      value={getAnchorX(fieldConfig)}
+                      onChange={(e) => handleFieldChange(key, fieldConfig.alignment, parseInt(e.target.value) || 0)}
+                      data-testid={`input-${key}-x`}
                     />
                   </div>
                   <div>
-                    <Label htmlFor={`${key}-bottom`}>Bottom Position (px)</Label>
+                    <Label htmlFor={`${key}-y`}>{VERTICAL_ANCHOR_LABELS[fieldConfig.verticalAnchor]} Position (px)</Label>
                     <Input
-                      id={`${key}-bottom`}
+                      id={`${key}-y`}
                       type="number"
-                      value={fieldConfig.bottom}
-                      onChange={(e) => handleFieldChange(key, 'bottom', parseInt(e.target.value) || 0)}
-                      data-testid={`input-${key}-bottom`}
+                      value={getAnchorY(fieldConfig)}
+                      onChange={(e) => handleFieldChange(key, fieldConfig.verticalAnchor, parseInt(e.target.value) || 0)}
+                      data-testid={`input-${key}-y`}
                     />
                   </div>
                 </div>
@@ -123,13 +164,21 @@ export function TextPositionEditor({ config, onConfigChange, onSave }: TextPosit
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {FONT_OPTIONS.map((font) => (
-                          <SelectItem key={font} value={font}>
-                            {font.replace('Montserrat-', '')}
+                        {!selectedFont && (
+                          <SelectItem value={fieldConfig.fontFamily}>{fieldConfig.fontFamily} (not available)</SelectItem>
+                        )}
+                        {fonts.map((font) => (
+                          <SelectItem key={font.name} value={font.name}>
+                            {fontLabel(font)}
                           </SelectItem>
                         ))}
                       </SelectContent>
                     </Select>
+                    {selectedFont?.license && (
+                      <p className="text-xs text-muted-foreground mt-1" data-testid={`text-${key}-font-license`}>
+                        License: {selectedFont.license}
+                      </p>
+                    )}
                   </div>
                   <div>
                     <Label htmlFor={`${key}-size`}>Font Size (px)</Label>
@@ -143,10 +192,10 @@ export function TextPositionEditor({ config, onConfigChange, onSave }: TextPosit
                   </div>
                 </div>
 
-                {/* Color and Alignment */}
-                <div className="grid grid-cols-2 gap-4">
+                {/* Color and Anchors */}
+                <div className="grid grid-cols-3 gap-4">
                   <div>
-                    <Label htmlFor={`${key}-color`}>Text Color</Label>
+                    <Label htmlFor={`${key}-color`}>{fieldConfig.gradientColor ? 'Gradient From' : 'Text Color'}</Label>
                     <Input
                       id={`${key}-color`}
                       type="color"
@@ -159,24 +208,266 @@ export function TextPositionEditor({ config, onConfigChange, onSave }: TextPosit
                     <Label htmlFor={`${key}-alignment`}>Text Alignment</Label>
                     <Select
                       value={fieldConfig.alignment}
-                      onValueChange={(value) => handleFieldChange(key, 'alignment', value as 'left' | 'center' | 'right')}
+                      onValueChange={(value) => handleAnchorChange(key, setAlignment(fieldConfig, value as HorizontalAlignment))}
                     >
                       <SelectTrigger data-testid={`select-${key}-alignment`}>
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="left">Left</SelectItem>
-                        <SelectItem value="center">Center</SelectItem>
-                        <SelectItem value="right">Right</SelectItem>
+                        {(Object.keys(ALIGNMENT_LABELS) as HorizontalAlignment[]).map((alignment) => (
+                          <SelectItem key={alignment} value={alignment}>{ALIGNMENT_LABELS[alignment]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-vertical-anchor`}>Vertical Anchor</Label>
+                    <Select
+                      value={fieldConfig.verticalAnchor}
+                      onValueChange={(value) => handleAnchorChange(key, setVerticalAnchor(fieldConfig, value as VerticalAnchor))}
+                    >
+                      <SelectTrigger data-testid={`select-${key}-vertical-anchor`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(VERTICAL_ANCHOR_LABELS) as VerticalAnchor[]).map((anchor) => (
+                          <SelectItem key={anchor} value={anchor}>{VERTICAL_ANCHOR_LABELS[anchor]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {/* Fit Box */}
+                <div className="grid grid-cols-4 gap-4">
+                  <div>
+                    <Label htmlFor={`${key}-max-width`}>Max Width (px)</Label>
+                    <Input
+                      id={`${key}-max-width`}
+                      type="number"
+                      placeholder="None"
+                      value={fieldConfig.maxWidth ?? ''}
+                      onChange={(e) => handleFieldChange(key, 'maxWidth', optionalNumber(e.target.value))}
+                      data-testid={`input-${key}-max-width`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-max-height`}>Max Height (px)</Label>
+                    <Input
+                      id={`${key}-max-height`}
+                      type="number"
+                      placeholder="None"
+                      value={fieldConfig.maxHeight ?? ''}
+                      onChange={(e) => handleFieldChange(key, 'maxHeight', optionalNumber(e.target.value))}
+                      data-testid={`input-${key}-max-height`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-min-size`}>Min Font Size (px)</Label>
+                    <Input
+                      id={`${key}-min-size`}
+                      type="number"
+                      placeholder="8"
+                      value={fieldConfig.minFontSize ?? ''}
+                      onChange={(e) => handleFieldChange(key, 'minFontSize', optionalNumber(e.target.value))}
+                      data-testid={`input-${key}-min-size`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-overflow`}>When Too Long</Label>
+                    <Select
+                      value={fieldConfig.overflow ?? 'shrink'}
+                      onValueChange={(value) => handleFieldChange(key, 'overflow', value as TextOverflowMode)}
+                    >
+                      <SelectTrigger data-testid={`select-${key}-overflow`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(OVERFLOW_LABELS) as TextOverflowMode[]).map((mode) => (
+                          <SelectItem key={mode} value={mode}>{OVERFLOW_LABELS[mode]}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
                 </div>
+
+                {/* Effects */}
+                <div className="grid grid-cols-4 gap-4">
+                  <div>
+                    <Label htmlFor={`${key}-stroke-width`}>Outline (px)</Label>
+                    <Input
+                      id={`${key}-stroke-width`}
+                      type="number"
+                      min={0}
+                      placeholder="None"
+                      value={fieldConfig.strokeWidth ?? ''}
+                      onChange={(e) => handleFieldChange(key, 'strokeWidth', optionalNumber(e.target.value))}
+                      data-testid={`input-${key}-stroke-width`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-stroke-color`}>Outline Color</Label>
+                    <Input
+                      id={`${key}-stroke-color`}
+                      type="color"
+                      value={fieldConfig.strokeColor ?? DEFAULT_EFFECT_COLOR}
+                      disabled={!fieldConfig.strokeWidth}
+                      onChange={(e) => handleFieldChange(key, 'strokeColor', e.target.value)}
+                      data-testid={`input-${key}-stroke-color`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-letter-spacing`}>Letter Spacing (px)</Label>
+                    <Input
+                      id={`${key}-letter-spacing`}
+                      type="number"
+                      placeholder="0"
+                      value={fieldConfig.letterSpacing ?? ''}
+                      onChange={(e) => handleFieldChange(key, 'letterSpacing', optionalOffset(e.target.value))}
+                      data-testid={`input-${key}-letter-spacing`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-text-transform`}>Case</Label>
+                    <Select
+                      value={fieldConfig.textTransform ?? 'none'}
+                      onValueChange={(value) => handleFieldChange(key, 'textTransform', value === 'none' ? undefined : value)}
+                    >
+                      <SelectTrigger data-testid={`select-${key}-text-transform`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(TEXT_TRANSFORM_LABELS) as TextTransform[]).map((transform) => (
+                          <SelectItem key={transform} value={transform}>{TEXT_TRANSFORM_LABELS[transform]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-4 gap-4">
+                  <div>
+                    <label className="flex items-center space-x-2 text-sm font-medium mb-2">
+                      <Checkbox
+                        checked={!!fieldConfig.shadowColor}
+                        onCheckedChange={(checked) => handleFieldChange(key, 'shadowColor', checked === true ? DEFAULT_EFFECT_COLOR : undefined)}
+                        data-testid={`checkbox-${key}-shadow`}
+                      />
+                      <span>Shadow</span>
+                    </label>
+                    <Input
+                      type="color"
+                      value={fieldConfig.shadowColor ?? DEFAULT_EFFECT_COLOR}
+                      disabled={!fieldConfig.shadowColor}
+                      onChange={(e) => handleFieldChange(key, 'shadowColor', e.target.value)}
+                      data-testid={`input-${key}-shadow-color`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-shadow-x`}>Shadow X (px)</Label>
+                    <Input
+                      id={`${key}-shadow-x`}
+                      type="number"
+                      placeholder="0"
+                      value={fieldConfig.shadowOffsetX ?? ''}
+                      disabled={!fieldConfig.shadowColor}
+                      onChange={(e) => handleFieldChange(key, 'shadowOffsetX', optionalOffset(e.target.value))}
+                      data-testid={`input-${key}-shadow-x`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-shadow-y`}>Shadow Y (px)</Label>
+                    <Input
+                      id={`${key}-shadow-y`}
+                      type="number"
+                      placeholder="4"
+                      value={fieldConfig.shadowOffsetY ?? ''}
+                      disabled={!fieldConfig.shadowColor}
+                      onChange={(e) => handleFieldChange(key, 'shadowOffsetY', optionalOffset(e.target.value))}
+                      data-testid={`input-${key}-shadow-y`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-shadow-blur`}>Shadow Blur (px)</Label>
+                    <Input
+                      id={`${key}-shadow-blur`}
+                      type="number"
+                      min={0}
+                      placeholder="8"
+                      value={fieldConfig.shadowBlur ?? ''}
+                      disabled={!fieldConfig.shadowColor}
+                      onChange={(e) => handleFieldChange(key, 'shadowBlur', optionalOffset(e.target.value))}
+                      data-testid={`input-${key}-shadow-blur`}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-4 gap-4">
+                  <div>
+                    <Label htmlFor={`${key}-opacity`}>Opacity (%)</Label>
+                    <Input
+                      id={`${key}-opacity`}
+                      type="number"
+                      min={0}
+                      max={100}
+                      placeholder="100"
+                      value={fieldConfig.opacity === undefined ? '' : Math.round(fieldConfig.opacity * 100)}
+                      onChange={(e) => handleFieldChange(key, 'opacity', optionalPercent(e.target.value))}
+                      data-testid={`input-${key}-opacity`}
+                    />
+                  </div>
+                  <div>
+                    <label className="flex items-center space-x-2 text-sm font-medium mb-2">
+                      <Checkbox
+                        checked={!!fieldConfig.gradientColor}
+                        onCheckedChange={(checked) => handleFieldChange(key, 'gradientColor', checked === true ? DEFAULT_EFFECT_COLOR : undefined)}
+                        data-testid={`checkbox-${key}-gradient`}
+                      />
+                      <span>Gradient To</span>
+                    </label>
+                    <Input
+                      type="color"
+                      value={fieldConfig.gradientColor ?? DEFAULT_EFFECT_COLOR}
+                      disabled={!fieldConfig.gradientColor}
+                      onChange={(e) => handleFieldChange(key, 'gradientColor', e.target.value)}
+                      data-testid={`input-${key}-gradient-color`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-gradient-angle`}>Gradient Angle (°)</Label>
+                    <Input
+                      id={`${key}-gradient-angle`}
+                      type="number"
+                      min={0}
+                      max={360}
+                      placeholder="90"
+                      value={fieldConfig.gradientAngle ?? ''}
+                      disabled={!fieldConfig.gradientColor}
+                      onChange={(e) => handleFieldChange(key, 'gradientAngle', optionalOffset(e.target.value))}
+                      data-testid={`input-${key}-gradient-angle`}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`${key}-z-index`}>Layer Order</Label>
+                    <Input
+                      id={`${key}-z-index`}
+                      type="number"
+                      min={-100}
+                      max={100}
+                      placeholder="0"
+                      value={fieldConfig.zIndex ?? ''}
+                      onChange={(e) => handleFieldChange(key, 'zIndex', optionalOffset(e.target.value))}
+                      data-testid={`input-${key}-z-index`}
+                    />
+                  </div>
+                </div>
               </CardContent>
             </Card>
           );
         })}
       </div>
+
+      <ImageLayersEditor config={config} onConfigChange={onConfigChange} />
     </div>
   );
 }
\ No newline at end of file
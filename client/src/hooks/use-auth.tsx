@@ -0,0 +1,81 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest, apiErrorMessage, getQueryFn } from "@/lib/queryClient";
+import { type InsertUser, type PublicUser } from "@shared/schema";
+
+interface AuthContextType {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ['/api/user'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const signedIn = (signedInUser: PublicUser) => {
+    // Drop anything cached under a previous session before showing the app
+    queryClient.clear();
+    queryClient.setQueryData(['/api/user'], signedInUser);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest('POST', '/api/login', credentials);
+      return await res.json() as PublicUser;
+    },
+    onSuccess: signedIn,
+    onError: (error: Error) => {
+      toast({ title: "Login Failed", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest('POST', '/api/register', credentials);
+      return await res.json() as PublicUser;
+    },
+    onSuccess: signedIn,
+    onError: (error: Error) => {
+      toast({ title: "Registration Failed", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/logout');
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(['/api/user'], null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Logout Failed", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{ user: user ?? null, isLoading, loginMutation, registerMutation, logoutMutation }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
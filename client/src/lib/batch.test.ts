@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import JSZip from "jszip";
+import { DEFAULT_FIELDS } from "@shared/defaults";
+import { buildBatchRows, buildFileNames, guessColumnMapping, parseCsv, parseXlsx } from "./batch";
+
+const cellXml = (ref: string, value: string | number) => (typeof value === "number"
+  ? `<c r="${ref}"><v>${value}</v></c>`
+  : `<c r="${ref}" t="inlineStr"><is><t>${value}</t></is></c>`);
+
+// The smallest workbook Excel would open: one sheet of inline cells, keyed by row number
+async function workbook(rows: Record<number, (string | number)[]>): Promise<ArrayBuffer> {
+  const sheetData = Object.entries(rows)
+    .map(([row, cells]) => `<row r="${row}">${cells.map((value, column) => cellXml(`${String.fromCharCode(65 + column)}${row}`, value)).join("")}</row>`)
+    .join("");
+  const relationships = "http://schemas.openxmlformats.org/package/2006/relationships";
+  const officeDocument = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+  const zip = new JSZip();
+  zip.file("[Content_Types].xml", `<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`);
+  zip.file("_rels/.rels", `<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="${relationships}"><Relationship Id="rId1" Type="${officeDocument}/officeDocument" Target="xl/workbook.xml"/></Relationships>`);
+  zip.file("xl/workbook.xml", `<?xml version="1.0" encoding="UTF-8"?><workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${officeDocument}"><sheets><sheet name="Sheet1" sheetId="1" r:id="rId1"/></sheets></workbook>`);
+  zip.file("xl/_rels/workbook.xml.rels", `<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="${relationships}"><Relationship Id="rId1" Type="${officeDocument}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`);
+  zip.file("xl/worksheets/sheet1.xml", `<?xml version="1.0" encoding="UTF-8"?><worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetData}</sheetData></worksheet>`);
+  return await zip.generateAsync({ type: "arraybuffer" });
+}
+
+describe("parseCsv", () => {
+  it("skips blank rows but keeps counting them in line numbers", () => {
+    const sheet = parseCsv("Race Name,day\r\nEmerald Stakes,Mon\r\n\r\n,\r\n\"Gold, Cup\",Tue\r\n");
+
+    assert.deepEqual(sheet.columns, ["Race Name", "day"]);
+    assert.deepEqual(sheet.rows, [
+      { line: 2, values: { "Race Name": "Emerald Stakes", day: "Mon" }, errors: [] },
+      { line: 5, values: { "Race Name": "Gold, Cup", day: "Tue" }, errors: [] },
+    ]);
+  });
+
+  it("reports missing cells, extra values and broken quoting on their own line", () => {
+    const sheet = parseCsv("raceName,day\nShort\nLong,Mon,extra\nTrailing,Tue,\n\"Open,Wed\n");
+
+    assert.deepEqual(sheet.rows.map(({ line, errors }) => ({ line, errors })), [
+      { line: 2, errors: ["Row has 1 of the 2 columns"] },
+      { line: 3, errors: ["Row has values beyond the 2 headed columns"] },
+      { line: 4, errors: [] },
+      { line: 5, errors: ["Quoted field unterminated", "Row has 1 of the 2 columns"] },
+    ]);
+  });
+});
+
+describe("parseXlsx", () => {
+  it("reads the first sheet with row numbers as the sheet shows them", async () => {
+    const sheet = await parseXlsx(await workbook({
+      2: ["raceName", "numberOfRaces"],
+      3: ["Emerald Stakes", 8],
+      5: ["Gold Cup", 10],
+    }));
+
+    assert.deepEqual(sheet.columns, ["raceName", "numberOfRaces"]);
+    assert.deepEqual(sheet.rows, [
+      { line: 3, values: { raceName: "Emerald Stakes", numberOfRaces: "8" }, errors: [] },
+      { line: 5, values: { raceName: "Gold Cup", numberOfRaces: "10" }, errors: [] },
+    ]);
+  });
+});
+
+describe("buildBatchRows", () => {
+  it("reports validation and parse errors against the row's line", () => {
+    const sheet = parseCsv("Race Name,Number of Races\nEmerald Stakes,8\n\n,30\nGold Cup\n");
+    const rows = buildBatchRows(sheet, DEFAULT_FIELDS, guessColumnMapping(DEFAULT_FIELDS, sheet.columns));
+
+    assert.deepEqual(rows.map(({ line, errors }) => ({ line, errors })), [
+      { line: 2, errors: [] },
+      { line: 4, errors: ["Race Name is required", "Number of Races must be at most 20"] },
+      { line: 5, errors: ["Row has 1 of the 2 columns", "Number of Races is required"] },
+    ]);
+    assert.equal(rows[0].content.numberOfRaces, 8);
+  });
+});
+
+describe("buildFileNames", () => {
+  it("fills the pattern with file-safe values", () => {
+    assert.deepEqual(buildFileNames("{raceName}_{day}.png", [{ raceName: "Gold Cup", day: "Sat 14/9" }]), ["Gold_Cup_Sat_14_9.png"]);
+    assert.deepEqual(buildFileNames("{missing}", [{}]), ["ad.png"]);
+  });
+
+  it("keeps names unique even when a row already uses a suffixed name", () => {
+    const names = buildFileNames("{raceName}", ["a", "a", "a_2", "a"].map((raceName) => ({ raceName })));
+    assert.deepEqual(names, ["a.png", "a_2.png", "a_2_2.png", "a_3.png"]);
+  });
+});
@@ -0,0 +1,137 @@
+import Papa from "papaparse";
+import { readSheet } from "read-excel-file/universal";
+import { buildAdContentSchema, type AdContent, type FieldDefinition } from "@shared/schema";
+import { fieldInputValue, withFieldDefaults } from "@shared/fields";
+import { stripMarkup } from "@shared/rich-text";
+
+export interface SpreadsheetRow {
+  // 1-based row number in the source file, counting the header and any blank rows
+  line: number;
+  values: Record<string, string>;
+  // Problems reading the row itself, such as broken quoting or missing cells
+  errors: string[];
+}
+
+export interface Spreadsheet {
+  columns: string[];
+  rows: SpreadsheetRow[];
+}
+
+export interface BatchRow {
+  line: number;
+  content: AdContent;
+  errors: string[];
+}
+
+// Field key -> source column; null leaves the field at its default
+export type ColumnMapping = Record<string, string | null>;
+
+export const DEFAULT_FILENAME_PATTERN = "{raceName}_{day}.png";
+
+interface ParseError {
+  // 0-based index of the record the error was found in
+  index: number;
+  message: string;
+}
+
+const isBlank = (cells: string[]) => cells.every((cell) => cell === "");
+
+// The first non-blank record holds the headers. Blank rows are skipped but still counted,
+// so reported lines match the row numbers a spreadsheet app shows.
+function toSpreadsheet(records: string[][], parseErrors: ParseError[]): Spreadsheet {
+  const cells = records.map((record) => record.map((cell) => cell.trim()));
+  const headerIndex = cells.findIndex((record) => !isBlank(record));
+  if (headerIndex === -1) return { columns: [], rows: [] };
+  const columns = cells[headerIndex];
+
+  const rows = cells.flatMap((record, index) => {
+    const errors = parseErrors.filter((error) => error.index === index).map((error) => error.message);
+    if (index <= headerIndex || (isBlank(record) && errors.length === 0)) return [];
+
+    if (record.length < columns.length) {
+      errors.push(`Row has ${record.length} of the ${columns.length} columns`);
+    }
+    if (record.slice(columns.length).some((cell) => cell !== "")) {
+      errors.push(`Row has values beyond the ${columns.length} headed columns`);
+    }
+    const values = Object.fromEntries(columns.map((column, position) => [column, record[position] ?? ""]));
+    return [{ line: index + 1, values, errors }];
+  });
+
+  return { columns, rows };
+}
+
+export function parseCsv(text: string): Spreadsheet {
+  const { data, errors } = Papa.parse<string[]>(text);
+  // Errors without a row, such as a guessed delimiter, don't affect any one line
+  return toSpreadsheet(data, errors.flatMap((error) => (error.row === undefined ? [] : [{ index: error.row, message: error.message }])));
+}
+
+// Excel dates have no time zone and are read as UTC; they become race day values, "2026-10-24T19:15"
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 16);
+  return String(value);
+}
+
+// Reads the first sheet of a workbook
+export async function parseXlsx(data: ArrayBuffer): Promise<Spreadsheet> {
+  const sheet = await readSheet(data);
+  return toSpreadsheet(sheet.map((row) => row.map(cellText)), []);
+}
+
+export async function parseSpreadsheet(file: File): Promise<Spreadsheet> {
+  return /\.xlsx$/i.test(file.name) ? parseXlsx(await file.arrayBuffer()) : parseCsv(await file.text());
+}
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Match columns to fields by key or label, ignoring case, spaces and punctuation
+export function guessColumnMapping(fields: FieldDefinition[], columns: string[]): ColumnMapping {
+  return Object.fromEntries(fields.map((field) => {
+    const column = columns.find((name) => [field.key, field.label].some((candidate) => normalize(candidate) === normalize(name)));
+    return [field.key, column ?? null];
+  }));
+}
+
+export function buildBatchRows(sheet: Spreadsheet, fields: FieldDefinition[], mapping: ColumnMapping): BatchRow[] {
+  const schema = buildAdContentSchema(fields);
+
+  return sheet.rows.map(({ line, values, errors }) => {
+    const mapped = Object.fromEntries(
+      fields
+        .filter((field) => mapping[field.key])
+        .map((field) => [field.key, values[mapping[field.key]!] ?? ""]),
+    );
+    // Unmapped fields fall back to their defaults; mapped blanks are reported as errors
+    const content = withFieldDefaults(mapped, fields);
+    const validation = schema.safeParse(content);
+
+    // Valid rows keep the parsed values, so "$1.2M" is stored as an amount
+    return {
+      line,
+      content: validation.success ? validation.data : content,
+      errors: [...errors, ...(validation.success ? [] : validation.error.issues.map((issue) => issue.message))],
+    };
+  });
+}
+
+// Fill {fieldKey} placeholders with file-safe values, keeping names unique within a batch
+export function buildFileNames(pattern: string, contents: AdContent[]): string[] {
+  const used = new Set<string>();
+
+  return contents.map((content) => {
+    const name = pattern
+      .replace(/\{(\w+)\}/g, (_, key: string) => stripMarkup(fieldInputValue(content[key])).replace(/[^\w-]+/g, "_"))
+      .replace(/^_+|_+(?=\.)/g, "") || "ad.png";
+    const fileName = name.toLowerCase().endsWith(".png") ? name : `${name}.png`;
+
+    // Check every suffix too, so rows named "a", "a" and "a_2" can't both get a_2.png
+    let unique = fileName;
+    for (let suffix = 2; used.has(unique); suffix++) {
+      unique = fileName.replace(/\.png$/i, `_${suffix}.png`);
+    }
+    used.add(unique);
+    return unique;
+  });
+}
@@ -1,7 +1,19 @@
+import { type AdContent, type FieldDefinition, type TextConfig } from "@shared/schema";
+import { drawTemplate, getImageLayers, renderAd, type AssetImages, type CreateLayerContext, type TextFieldKey, type TextFieldLayout } from "@shared/ad-renderer";
+
+const createLayer: CreateLayerContext = (width, height) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas.getContext('2d')!;
+};
+
 export class CanvasRenderer {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private templateImage: HTMLImageElement | null = null;
+  // Assets by id, kept across renders; failed loads stay out so a later call retries them
+  private assetImages: AssetImages = {};
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -12,7 +24,14 @@ export class CanvasRenderer {
     this.ctx = ctx;
   }
 
-  async loadTemplate(imagePath: string): Promise<void> {
+  // A null path draws the fallback background
+  async loadTemplate(imagePath: string | null): Promise<void> {
+    if (imagePath === null) {
+      this.templateImage = null;
+      this.renderTemplate();
+      return;
+    }
+
     return new Promise((resolve, reject) => {
       const img = new Image();
       img.crossOrigin = 'anonymous';
@@ -25,7 +44,8 @@ export class CanvasRenderer {
       
       img.onerror = () => {
         console.warn('Template image failed to load, using fallback');
-        this.createFallbackTemplate();
+        this.templateImage = null;
+        this.renderTemplate();
         resolve();
       };
       
@@ -33,89 +53,32 @@ export class CanvasRenderer {
     });
   }
 
-  private createFallbackTemplate(): void {
-    // Create a fallback green template matching the harness racing theme
-    this.ctx.fillStyle = '#22c55e';
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
-    
-    // Add some gradient for visual appeal
-    const gradient = this.ctx.createLinearGradient(0, 0, this.canvas.width, this.canvas.height);
-    gradient.addColorStop(0, '#16a34a');
-    gradient.addColorStop(1, '#22c55e');
-    this.ctx.fillStyle = gradient;
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
-    
-    // Add "TEMPLATE" watermark
-    this.ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
-    this.ctx.font = 'bold 120px Montserrat, Arial, sans-serif';
-    this.ctx.textAlign = 'center';
-    this.ctx.fillText('TEMPLATE', this.canvas.width / 2, this.canvas.height / 2);
-  }
-
-  private renderTemplate(): void {
-    if (this.templateImage) {
-      // Clear canvas and draw template image
-      this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
-      this.ctx.drawImage(this.templateImage, 0, 0, this.canvas.width, this.canvas.height);
-    } else {
-      this.createFallbackTemplate();
-    }
-  }
-
-  renderWithText(formData: {
-    raceName: string;
-    prizeAmount: string;
-    projectedPool: string;
-    day: string;
-    numberOfRaces: string;
-  }, textConfig?: any): void {
-    
-    // Start with clean template
-    this.renderTemplate();
+  // Loads the assets the config's image layers use; resolves true when any were new
+  async loadAssets(textConfig: TextConfig): Promise<boolean> {
+    const assetIds = Array.from(new Set(getImageLayers(textConfig).map(({ layer }) => layer.assetId)))
+      .filter((assetId) => !(assetId in this.assetImages));
 
-    // Set up text rendering properties
-    this.ctx.textBaseline = 'bottom';
-    
-    // Use provided config or fall back to defaults
-    const config = textConfig || {
-      raceName: { bottom: 200, left: 100, alignment: "left", fontFamily: "Montserrat-BoldItalic", fontSize: 60, color: "#1fd87b" },
-      prizeAmount: { bottom: 600, left: 200, alignment: "left", fontFamily: "Montserrat-Black", fontSize: 120, color: "#ffffff" },
-      projectedPool: { bottom: 700, left: 540, alignment: "left", fontFamily: "Montserrat-BoldItalic", fontSize: 48, color: "#1fd87b" },
-      day: { bottom: 800, left: 700, alignment: "left", fontFamily: "Montserrat-BoldItalic", fontSize: 48, color: "#1fd87b" },
-      numberOfRaces: { bottom: 200, center: 1340, alignment: "center", fontFamily: "Montserrat-Bold", fontSize: 80, color: "#1fd87b" }
-    };
-    
-    // Render each text field with its configuration
-    this.renderTextField(formData.raceName, config.raceName);
-    this.renderTextField(`$${formData.prizeAmount}`, config.prizeAmount);
-    this.renderTextField(`$${formData.projectedPool}`, config.projectedPool);
-    this.renderTextField(formData.day, config.day);
-    this.renderTextField(formData.numberOfRaces, config.numberOfRaces);
+    const loaded = await Promise.all(assetIds.map((assetId) => new Promise<boolean>((resolve) => {
+      const img = new Image();
+      img.onload = () => {
+        this.assetImages[assetId] = img;
+        resolve(true);
+      };
+      img.onerror = () => {
+        console.warn(`Asset ${assetId} failed to load, leaving its layer empty`);
+        resolve(false);
+      };
+      img.src = `/api/assets/${assetId}/file`;
+    })));
+    return loaded.some(Boolean);
   }
 
-  private renderTextField(text: string, config: any): void {
-    
-    this.ctx.fillStyle = config.color;
-    this.ctx.font = this.getFontString(config.fontFamily, config.fontSize);
-    this.ctx.textAlign = config.alignment as CanvasTextAlign;
-    
-    const x = config.alignment === "center" ? config.center : config.left;
-    this.ctx.fillText(text, x, config.bottom);
+  private renderTemplate(): void {
+    drawTemplate(this.ctx, this.canvas.width, this.canvas.height, this.templateImage);
   }
 
-  private getFontString(fontFamily: string, fontSize: number): string {
-    // Convert font family to CSS font string
-    switch (fontFamily) {
-      case "Montserrat-Bold":
-        return `bold ${fontSize}px Montserrat, Arial, sans-serif`;
-      case "Montserrat-BoldItalic":
-        return `italic bold ${fontSize}px Montserrat, Arial, sans-serif`;
-      case "Montserrat-Black":
-        return `900 ${fontSize}px Montserrat, Arial, sans-serif`;
-      case "Montserrat-Regular":
-        return `${fontSize}px Montserrat, Arial, sans-serif`;
-      default:
-        return `${fontSize}px Montserrat, Arial, sans-serif`;
-    }
+  renderWithText(formData: AdContent, textConfig?: TextConfig, fields?: FieldDefinition[], watermark?: string): Record<TextFieldKey, TextFieldLayout> {
+    // Layout lives in @shared/ad-renderer so the server renders identical PNGs
+    return renderAd(this.ctx, this.canvas.width, this.canvas.height, this.templateImage, formData, textConfig, fields, watermark, this.assetImages, createLayer);
   }
 }
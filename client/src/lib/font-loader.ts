@@ -1,82 +1,114 @@
+import montserratBlackUrl from "@assets/Montserrat-Black_1756701526212.otf";
+import montserratBoldUrl from "@assets/Montserrat-Bold_1756701526213.otf";
+import montserratBoldItalicUrl from "@assets/Montserrat-BoldItalic_1756701526213.otf";
+import { type FontStyle, type SelectFont } from "@shared/schema";
+import { setUploadedFonts } from "@shared/fonts";
+
+// A face to register with the FontFace API
+interface FaceSource {
+  name: string;
+  family: string;
+  url: string;
+  weight: string;
+  style: FontStyle;
+}
+
+const FONT_FAMILY = "Montserrat";
+
+// The same OTF files server/render.ts registers, so previews match server renders
+// and nothing depends on a font CDN being reachable
+const BUNDLED_FACES: FaceSource[] = [
+  { name: "Montserrat-Black", family: FONT_FAMILY, url: montserratBlackUrl, weight: "900", style: "normal" },
+  { name: "Montserrat-Bold", family: FONT_FAMILY, url: montserratBoldUrl, weight: "700", style: "normal" },
+  { name: "Montserrat-BoldItalic", family: FONT_FAMILY, url: montserratBoldItalicUrl, weight: "700", style: "italic" },
+];
+
+export class FontLoadError extends Error {
+  constructor(public readonly failedFaces: string[]) {
+    super(`Could not load ${failedFaces.join(", ")}`);
+    this.name = "FontLoadError";
+  }
+}
+
+// Faces are registered once per page; later loaders wait on the same promise
+let bundledFontsReady: Promise<void> | null = null;
+// Uploaded faces by font id, registered as the registry first lists them
+const uploadedFaces = new Map<number, Promise<void>>();
+
+async function loadFace(face: FaceSource): Promise<void> {
+  const fontFace = new FontFace(face.family, `url(${face.url})`, { weight: face.weight, style: face.style });
+  document.fonts.add(fontFace);
+  await fontFace.load();
+
+  // Canvas only picks up faces the document reports as loaded for this exact weight and style
+  const loaded = await document.fonts.load(`${face.style} ${face.weight} 16px "${face.family}"`);
+  if (!loaded.includes(fontFace)) {
+    throw new Error(`${face.name} did not load`);
+  }
+}
+
+async function loadBundledFonts(): Promise<void> {
+  if (!("fonts" in document) || typeof FontFace === "undefined") {
+    throw new FontLoadError(BUNDLED_FACES.map((face) => face.name));
+  }
+
+  const results = await Promise.allSettled(BUNDLED_FACES.map(loadFace));
+  const failedFaces = BUNDLED_FACES.filter((face, index) => {
+    const result = results[index];
+    if (result.status === "fulfilled") return false;
+    console.error(`Font loading failed for ${face.name}:`, result.reason);
+    return true;
+  }).map((face) => face.name);
+
+  if (failedFaces.length > 0) {
+    throw new FontLoadError(failedFaces);
+  }
+}
+
 export class FontLoader {
   private fontsLoaded = false;
 
+  // Rejects with a FontLoadError naming each face that failed; callers shouldn't render
+  // until this resolves, or the preview silently falls back to another font
   async loadFonts(): Promise<void> {
-    try {
-      // Check if FontFace API is available
-      if ('FontFace' in window) {
-        // Since we can't load local OTF files due to CORS restrictions,
-        // we'll rely on the Google Fonts Montserrat that's already loaded
-        // The Google Fonts version includes multiple weights including:
-        // - 100-900 normal weights
-        // - 100-900 italic weights
-        
-        // Verify the font is loaded by testing text measurement
-        await this.verifyFontLoading();
-        this.fontsLoaded = true;
-      } else {
-        // Fallback for older browsers
-        console.warn('FontFace API not supported, using fallback fonts');
-        this.fontsLoaded = true;
-      }
-    } catch (error) {
-      console.error('Font loading failed:', error);
-      // Continue with fallback fonts
-      this.fontsLoaded = true;
+    if (!bundledFontsReady) {
+      bundledFontsReady = loadBundledFonts().catch((error) => {
+        // Let the next loader try again, e.g. once the network is back
+        bundledFontsReady = null;
+        throw error;
+      });
     }
+    await bundledFontsReady;
+    this.fontsLoaded = true;
   }
 
-  private async verifyFontLoading(): Promise<void> {
-    return new Promise((resolve) => {
-      // Create a temporary canvas to test font rendering
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) {
-        resolve();
-        return;
+  // Registers uploaded fonts not seen before and hands the registry to the renderer. Faces
+  // that fail are named in a FontLoadError; text set in them falls back to Montserrat.
+  async loadUploadedFonts(fonts: SelectFont[]): Promise<void> {
+    const results = await Promise.allSettled(fonts.map((font) => {
+      if (!uploadedFaces.has(font.id)) {
+        const face: FaceSource = { name: font.name, family: font.family, url: `/api/fonts/${font.id}/file`, weight: String(font.weight), style: font.style };
+        uploadedFaces.set(font.id, loadFace(face));
       }
+      return uploadedFaces.get(font.id)!;
+    }));
+    setUploadedFonts(fonts);
 
-      // Test if Montserrat is actually loaded
-      ctx.font = '16px Montserrat, Arial, sans-serif';
-      const testText = 'Test Font Loading';
-      const montserratWidth = ctx.measureText(testText).width;
-      
-      ctx.font = '16px Arial, sans-serif';
-      const arialWidth = ctx.measureText(testText).width;
-      
-      // If widths are different, Montserrat is likely loaded
-      if (Math.abs(montserratWidth - arialWidth) > 1) {
-        console.log('Montserrat font successfully loaded');
-      } else {
-        console.warn('Montserrat font may not be loaded, using fallback');
-      }
-      
-      resolve();
-    });
+    const failedFaces = fonts.filter((font, index) => {
+      const result = results[index];
+      if (result.status === "fulfilled") return false;
+      console.error(`Font loading failed for ${font.name}:`, result.reason);
+      // Try again the next time the registry is loaded
+      uploadedFaces.delete(font.id);
+      return true;
+    }).map((font) => font.name);
+
+    if (failedFaces.length > 0) {
+      throw new FontLoadError(failedFaces);
+    }
   }
 
   isFontsLoaded(): boolean {
     return this.fontsLoaded;
   }
-
-  // Get the appropriate font string for canvas rendering
-  getFontString(weight: 'normal' | 'bold' | 'black', style: 'normal' | 'italic', size: number): string {
-    let fontWeight = '400';
-    
-    switch (weight) {
-      case 'bold':
-        fontWeight = '700';
-        break;
-      case 'black':
-        fontWeight = '900';
-        break;
-      default:
-        fontWeight = '400';
-    }
-    
-    const fontStyle = style === 'italic' ? 'italic ' : '';
-    
-    return `${fontStyle}${fontWeight} ${size}px Montserrat, Arial, sans-serif`;
-  }
 }
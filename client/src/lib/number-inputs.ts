@@ -0,0 +1,7 @@
+// Readers for optional number inputs; an empty input clears the setting
+
+export const optionalNumber = (value: string) => (value === '' ? undefined : parseInt(value) || undefined);
+// Settings where 0 and negative values mean something, e.g. a shadow offset
+export const optionalOffset = (value: string) => (value === '' || isNaN(parseInt(value)) ? undefined : parseInt(value));
+// Opacity is edited as a percentage
+export const optionalPercent = (value: string) => (value === '' ? undefined : Math.min(100, Math.max(0, parseInt(value) || 0)) / 100);
@@ -23,11 +23,23 @@ export async function apiRequest(
   return res;
 }
 
+// apiRequest errors read "<status>: <body>"; show the API's own message when there is one
+export function apiErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
+// on404: "returnNull" is for records that may not have been created yet
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
+  on404?: "returnNull" | "throw";
 }) => QueryFunction<T> =
-  ({ on401: unauthorizedBehavior }) =>
+  ({ on401: unauthorizedBehavior, on404: notFoundBehavior = "throw" }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey.join("/") as string, {
       credentials: "include",
@@ -37,6 +49,10 @@ export const getQueryFn: <T>(options: {
       return null;
     }
 
+    if (notFoundBehavior === "returnNull" && res.status === 404) {
+      return null;
+    }
+
     await throwIfResNotOk(res);
     return await res.json();
   };
@@ -0,0 +1,48 @@
+import { type TextFieldBounds } from "@shared/ad-renderer";
+
+export interface SnapGuide {
+  orientation: "vertical" | "horizontal";
+  position: number;
+}
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  guides: SnapGuide[];
+}
+
+function closestSnap(edges: number[], targets: number[], threshold: number): { offset: number; target: number } | null {
+  let best: { offset: number; target: number } | null = null;
+
+  for (const edge of edges) {
+    for (const target of targets) {
+      const offset = target - edge;
+      if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+        best = { offset, target };
+      }
+    }
+  }
+
+  return best;
+}
+
+// Snap a moved box's edges and centre to the canvas centre lines and to the other fields
+export function snapBounds(
+  moving: TextFieldBounds,
+  others: TextFieldBounds[],
+  canvasWidth: number,
+  canvasHeight: number,
+  threshold: number,
+): SnapResult {
+  const verticalTargets = [canvasWidth / 2, ...others.flatMap((b) => [b.x, b.x + b.width / 2, b.x + b.width])];
+  const horizontalTargets = [canvasHeight / 2, ...others.flatMap((b) => [b.y, b.y + b.height / 2, b.y + b.height])];
+
+  const snapX = closestSnap([moving.x, moving.x + moving.width / 2, moving.x + moving.width], verticalTargets, threshold);
+  const snapY = closestSnap([moving.y, moving.y + moving.height / 2, moving.y + moving.height], horizontalTargets, threshold);
+
+  const guides: SnapGuide[] = [];
+  if (snapX) guides.push({ orientation: "vertical", position: snapX.target });
+  if (snapY) guides.push({ orientation: "horizontal", position: snapY.target });
+
+  return { dx: snapX?.offset ?? 0, dy: snapY?.offset ?? 0, guides };
+}
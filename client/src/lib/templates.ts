@@ -0,0 +1,26 @@
+import builtinTemplateImagePath from "@assets/2025_08_Green_Harness_Template_1756701532557.png";
+import { type TemplateFormat } from "@shared/schema";
+import { PRIMARY_FORMAT, isPrimaryFormat, textConfigNameForTemplate } from "@shared/formats";
+
+export const BUILTIN_TEMPLATE_NAME = "Green Harness (built-in)";
+
+// Image URL for a template format; null templateId selects the bundled Green Harness PNG,
+// and a null result means the format has no background of its own
+export function templateImageUrl(templateId: number | null, format?: TemplateFormat): string | null {
+  if (format && !isPrimaryFormat(format.key)) {
+    return templateId !== null && format.fileName ? `/api/templates/${templateId}/formats/${format.key}/image` : null;
+  }
+  return templateId === null ? builtinTemplateImagePath : `/api/templates/${templateId}/image`;
+}
+
+// Query string that binds a saved text config to its template format
+export function textConfigBindingQuery(templateId: number | null, formatKey?: string): string {
+  const query = `templateId=${templateId ?? ""}`;
+  return isPrimaryFormat(formatKey) ? query : `${query}&format=${formatKey}`;
+}
+
+// Inverse of textConfigNameForTemplate: the format a saved config name lays out
+export function formatKeyFromConfigName(templateId: number | null, configName: string | null): string {
+  const prefix = `${textConfigNameForTemplate(templateId)}-`;
+  return configName?.startsWith(prefix) ? configName.slice(prefix.length) : PRIMARY_FORMAT.key;
+}
@@ -0,0 +1,111 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Redirect } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth } from "@/hooks/use-auth";
+import { credentialsSchema, insertUserSchema, type InsertUser } from "@shared/schema";
+
+interface CredentialsFormProps {
+  mode: "login" | "register";
+  onSubmit: (credentials: InsertUser) => void;
+  isPending: boolean;
+}
+
+function CredentialsForm({ mode, onSubmit, isPending }: CredentialsFormProps) {
+  // Length rules only apply to new accounts
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(mode === "register" ? credentialsSchema : insertUserSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" data-testid={`input-${mode}-username`} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  autoComplete={mode === "register" ? "new-password" : "current-password"}
+                  data-testid={`input-${mode}-password`}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending} data-testid={`button-${mode}`}>
+          {mode === "register"
+            ? isPending ? "Creating account..." : "Create Account"
+            : isPending ? "Signing in..." : "Sign In"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-background">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6 space-y-6">
+          <div className="flex items-center space-x-3">
+            <div className="w-8 h-8 bg-primary rounded-lg flex items-center justify-center">
+              <i className="fas fa-image text-primary-foreground text-sm"></i>
+            </div>
+            <h1 className="text-xl font-semibold text-foreground">Ad Template Generator</h1>
+          </div>
+
+          <Tabs defaultValue="login" className="w-full">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login">Sign In</TabsTrigger>
+              <TabsTrigger value="register">Register</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login" className="mt-6">
+              <CredentialsForm
+                mode="login"
+                onSubmit={(credentials) => loginMutation.mutate(credentials)}
+                isPending={loginMutation.isPending}
+              />
+            </TabsContent>
+            <TabsContent value="register" className="mt-6">
+              <CredentialsForm
+                mode="register"
+                onSubmit={(credentials) => registerMutation.mutate(credentials)}
+                isPending={registerMutation.isPending}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
 import { AdGenerator } from "@/components/ad-generator";
+import { Button } from "@/components/ui/button";
+import { LogOut } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { ROLE_LABELS } from "@shared/permissions";
 
 export default function Home() {
+  const { user, logoutMutation } = useAuth();
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -14,9 +20,21 @@ export default function Home() {
               <h1 className="text-xl font-semibold text-foreground">Ad Template Generator</h1>
               <span className="px-2 py-1 bg-accent text-accent-foreground text-xs font-medium rounded-md">POC</span>
             </div>
-            <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-              <i className="fas fa-info-circle"></i>
-              <span>Proof of Concept</span>
+            <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+              <span data-testid="text-username">
+                {user?.username}
+                {user && <span className="ml-2 px-2 py-1 bg-muted text-xs rounded-md">{ROLE_LABELS[user.role]}</span>}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                data-testid="button-logout"
+              >
+                <LogOut className="w-4 h-4 mr-2" />
+                Sign Out
+              </Button>
             </div>
           </div>
         </div>
@@ -5,11 +5,26 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+let pool: Pool | undefined;
+let db: ReturnType<typeof drizzle<typeof schema>> | undefined;
+
+// Connect on first use, so the in-memory storage driver runs without DATABASE_URL
+export function getPool(): Pool {
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  if (!pool) {
+    pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  }
+  return pool;
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+export function getDb() {
+  if (!db) {
+    db = drizzle({ client: getPool(), schema });
+  }
+  return db;
+}
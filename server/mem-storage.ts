@@ -0,0 +1,527 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type session from "express-session";
+import { type User, type InsertUser, type UserRole, type TextConfig, type SelectTextPositionConfig, type SelectTextConfigRevision, type TextConfigRevision, type AdContent, type SelectAdContent, type SelectAdReview, type AdReview, type AdValueChange, type FieldValue, type Template, type InsertTemplate, type FieldDefinition, type TemplateFormat, type SelectFont, type InsertFont, type Asset, type InsertAsset } from "@shared/schema";
+import { migrateTextConfig } from "@shared/migrate";
+import { diffTextConfigs } from "@shared/revisions";
+import { statusAfterEdit } from "@shared/workflow";
+import type { IStorage, AdContentBinding, AdReviewStep, TextConfigBinding, TextConfigRevisionMeta } from "./storage";
+
+// Everything MemStorage holds, in the shape written to its JSON file
+interface MemData {
+  users: User[];
+  textPositionConfigs: SelectTextPositionConfig[];
+  textConfigRevisions: SelectTextConfigRevision[];
+  adContents: SelectAdContent[];
+  adReviews: SelectAdReview[];
+  adValueChanges: AdValueChange[];
+  templates: Template[];
+  fonts: SelectFont[];
+  assets: Asset[];
+  nextIds: { textPositionConfigs: number; textConfigRevisions: number; adContents: number; adReviews: number; adValueChanges: number; templates: number; fonts: number; assets: number };
+}
+
+function emptyData(): MemData {
+  return {
+    users: [],
+    textPositionConfigs: [],
+    textConfigRevisions: [],
+    adContents: [],
+    adReviews: [],
+    adValueChanges: [],
+    templates: [],
+    fonts: [],
+    assets: [],
+    nextIds: { textPositionConfigs: 1, textConfigRevisions: 1, adContents: 1, adReviews: 1, adValueChanges: 1, templates: 1, fonts: 1, assets: 1 },
+  };
+}
+
+// JSON turns timestamps into strings; bring them back as Dates
+function reviveDates<T extends { createdAt: Date; updatedAt?: Date }>(records: T[]): T[] {
+  return records.map((record) => ({
+    ...record,
+    createdAt: new Date(record.createdAt),
+    ...(record.updatedAt ? { updatedAt: new Date(record.updatedAt) } : {}),
+  }));
+}
+
+// Callers get copies, as they would from the database
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+// IStorage held in memory, for running without Postgres. When given a file it loads
+// from it on start and rewrites it after every change.
+export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  private data: MemData;
+  private filePath?: string;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(sessionStore: session.Store, filePath?: string) {
+    this.sessionStore = sessionStore;
+    this.filePath = filePath;
+    this.data = filePath && fs.existsSync(filePath) ? MemStorage.load(filePath) : emptyData();
+  }
+
+  private static load(filePath: string): MemData {
+    const stored = JSON.parse(fs.readFileSync(filePath, "utf8")) as MemData;
+    return {
+      ...emptyData(),
+      ...stored,
+      // Files written before roles existed
+      users: (stored.users ?? []).map((user) => ({ ...user, role: user.role ?? "marketer" })),
+      textPositionConfigs: reviveDates(stored.textPositionConfigs ?? []),
+      textConfigRevisions: reviveDates(stored.textConfigRevisions ?? []),
+      nextIds: { ...emptyData().nextIds, ...stored.nextIds },
+      // Ads saved before they remembered their template, went through review or refreshed their pool
+      adContents: reviveDates(stored.adContents ?? []).map((record) => ({
+        ...record,
+        templateId: record.templateId ?? null,
+        textConfigName: record.textConfigName ?? null,
+        status: record.status ?? "draft",
+        poolSourceKey: record.poolSourceKey ?? null,
+      })),
+      adReviews: reviveDates(stored.adReviews ?? []),
+      adValueChanges: reviveDates(stored.adValueChanges ?? []),
+      templates: reviveDates(stored.templates ?? []),
+      fonts: reviveDates(stored.fonts ?? []),
+      assets: reviveDates(stored.assets ?? []),
+    };
+  }
+
+  // Writes go through a temp file and rename, one at a time, so the file is never half-written
+  private persist(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) return Promise.resolve();
+
+    const snapshot = JSON.stringify(this.data, null, 2);
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      await fs.promises.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+      await fs.promises.writeFile(`${filePath}.tmp`, snapshot);
+      await fs.promises.rename(`${filePath}.tmp`, filePath);
+    });
+    return this.pendingWrite;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.data.users.find((u) => u.id === id);
+    return user && clone(user);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const user = this.data.users.find((u) => u.username === username);
+    return user && clone(user);
+  }
+
+  async createUser(insertUser: InsertUser & { role?: UserRole }, firstUserRole?: UserRole): Promise<User> {
+    if (this.data.users.some((u) => u.username === insertUser.username)) {
+      throw new Error(`Username "${insertUser.username}" already exists`);
+    }
+
+    const user: User = { id: randomUUID(), role: "marketer", ...insertUser };
+    if (firstUserRole && this.data.users.length === 0) user.role = firstUserRole;
+    this.data.users.push(user);
+    await this.persist();
+    return clone(user);
+  }
+
+  async countUsers(): Promise<number> {
+    return this.data.users.length;
+  }
+
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const user = this.data.users.find((u) => u.id === id);
+    if (!user) return undefined;
+
+    user.role = role;
+    await this.persist();
+    return clone(user);
+  }
+
+  async getTextPositionConfig(name: string): Promise<TextConfig | undefined> {
+    const record = this.data.textPositionConfigs.find((r) => r.name === name);
+    return record && migrateTextConfig(record.config);
+  }
+
+  async getTextPositionConfigRecord(name: string): Promise<SelectTextPositionConfig | undefined> {
+    const record = this.data.textPositionConfigs.find((r) => r.name === name);
+    return record && clone(record);
+  }
+
+  async saveTextPositionConfig(name: string, config: TextConfig, binding?: TextConfigBinding, revision?: TextConfigRevisionMeta): Promise<SelectTextPositionConfig> {
+    const existingRecord = this.data.textPositionConfigs.find((r) => r.name === name);
+    let record: SelectTextPositionConfig;
+
+    // Configs saved before revisions existed get their current layout recorded first
+    if (existingRecord && !this.data.textConfigRevisions.some((r) => r.configName === name)) {
+      const baseline = migrateTextConfig(existingRecord.config);
+      this.data.textConfigRevisions.push({
+        id: this.data.nextIds.textConfigRevisions++,
+        configName: name,
+        config: baseline,
+        changes: diffTextConfigs(undefined, baseline),
+        authorId: null,
+        restoredFromId: null,
+        createdAt: existingRecord.updatedAt,
+      });
+    }
+
+    this.data.textConfigRevisions.push({
+      id: this.data.nextIds.textConfigRevisions++,
+      configName: name,
+      config: clone(config),
+      changes: diffTextConfigs(existingRecord ? migrateTextConfig(existingRecord.config) : undefined, config),
+      authorId: revision?.authorId ?? null,
+      restoredFromId: revision?.restoredFromId ?? null,
+      createdAt: new Date(),
+    });
+
+    if (existingRecord) {
+      // Keep the template binding unless a new one is given
+      Object.assign(existingRecord, {
+        config: clone(config),
+        ...(binding ? { templateId: binding.templateId, format: binding.format } : {}),
+        updatedAt: new Date(),
+      });
+      record = existingRecord;
+    } else {
+      const now = new Date();
+      record = {
+        id: this.data.nextIds.textPositionConfigs++,
+        name,
+        config: clone(config),
+        templateId: binding?.templateId ?? null,
+        format: binding?.format ?? null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.data.textPositionConfigs.push(record);
+    }
+
+    await this.persist();
+    return clone(record);
+  }
+
+  async listTextPositionConfigs(): Promise<SelectTextPositionConfig[]> {
+    return clone(this.data.textPositionConfigs);
+  }
+
+  async deleteTextPositionConfig(name: string): Promise<SelectTextPositionConfig | undefined> {
+    const record = this.data.textPositionConfigs.find((r) => r.name === name);
+    if (!record) return undefined;
+
+    this.data.textPositionConfigs = this.data.textPositionConfigs.filter((r) => r !== record);
+    this.data.textConfigRevisions = this.data.textConfigRevisions.filter((r) => r.configName !== name);
+    await this.persist();
+    return clone(record);
+  }
+
+  async listTextConfigRevisions(name: string): Promise<TextConfigRevision[]> {
+    return this.data.textConfigRevisions
+      .filter((r) => r.configName === name)
+      .reverse()
+      .map((r) => this.withAuthorName(r));
+  }
+
+  async getTextConfigRevision(id: number): Promise<TextConfigRevision | undefined> {
+    const revision = this.data.textConfigRevisions.find((r) => r.id === id);
+    return revision && this.withAuthorName(revision);
+  }
+
+  private withAuthorName(revision: SelectTextConfigRevision): TextConfigRevision {
+    const author = this.data.users.find((u) => u.id === revision.authorId);
+    return { ...clone(revision), authorName: author?.username ?? null };
+  }
+
+  async getAdContent(name: string): Promise<AdContent | undefined> {
+    const record = this.data.adContents.find((r) => r.name === name);
+    return record && clone(record.values);
+  }
+
+  async getAdContentRecord(name: string): Promise<SelectAdContent | undefined> {
+    const record = this.data.adContents.find((r) => r.name === name);
+    return record && clone(record);
+  }
+
+  async saveAdContent(name: string, content: AdContent, binding?: AdContentBinding): Promise<SelectAdContent> {
+    const existingRecord = this.data.adContents.find((r) => r.name === name);
+    let record: SelectAdContent;
+
+    if (existingRecord) {
+      // Keep the template binding unless a new one is given
+      Object.assign(existingRecord, {
+        values: clone(content),
+        ...(binding ? { templateId: binding.templateId, textConfigName: binding.textConfigName } : {}),
+        updatedAt: new Date(),
+      });
+      record = existingRecord;
+    } else {
+      const now = new Date();
+      record = {
+        id: this.data.nextIds.adContents++,
+        name,
+        values: clone(content),
+        templateId: binding?.templateId ?? null,
+        textConfigName: binding?.textConfigName ?? null,
+        status: "draft",
+        poolSourceKey: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.data.adContents.push(record);
+    }
+
+    await this.persist();
+    return clone(record);
+  }
+
+  async listAdContents(): Promise<SelectAdContent[]> {
+    return clone([...this.data.adContents].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)));
+  }
+
+  async renameAdContent(name: string, newName: string): Promise<SelectAdContent | undefined> {
+    const record = this.data.adContents.find((r) => r.name === name);
+    if (!record) return undefined;
+
+    Object.assign(record, { name: newName, updatedAt: new Date() });
+    await this.persist();
+    return clone(record);
+  }
+
+  async duplicateAdContent(name: string, newName: string): Promise<SelectAdContent | undefined> {
+    const source = this.data.adContents.find((r) => r.name === name);
+    if (!source) return undefined;
+
+    const now = new Date();
+    // The copy is a new ad and needs its own sign-off; it only refreshes its pool once given a source
+    const record: SelectAdContent = { ...clone(source), id: this.data.nextIds.adContents++, name: newName, status: "draft", poolSourceKey: null, createdAt: now, updatedAt: now };
+    this.data.adContents.push(record);
+    await this.persist();
+    return clone(record);
+  }
+
+  async deleteAdContent(name: string): Promise<SelectAdContent | undefined> {
+    const record = this.data.adContents.find((r) => r.name === name);
+    if (!record) return undefined;
+
+    this.data.adContents = this.data.adContents.filter((r) => r !== record);
+    // Mirrors the ON DELETE CASCADE on ad_reviews.ad_content_id and ad_value_changes.ad_content_id
+    this.data.adReviews = this.data.adReviews.filter((r) => r.adContentId !== record.id);
+    this.data.adValueChanges = this.data.adValueChanges.filter((c) => c.adContentId !== record.id);
+    await this.persist();
+    return clone(record);
+  }
+
+  async reviewAdContent(name: string, step: AdReviewStep): Promise<SelectAdContent | undefined> {
+    const record = this.data.adContents.find((r) => r.name === name);
+    if (!record) return undefined;
+
+    this.data.adReviews.push({
+      id: this.data.nextIds.adReviews++,
+      adContentId: record.id,
+      action: step.action,
+      fromStatus: record.status,
+      toStatus: step.status,
+      comment: step.comment ?? null,
+      authorId: step.authorId,
+      createdAt: new Date(),
+    });
+    record.status = step.status;
+    await this.persist();
+    return clone(record);
+  }
+
+  async listAdReviews(name: string): Promise<AdReview[]> {
+    const record = this.data.adContents.find((r) => r.name === name);
+    if (!record) return [];
+
+    return this.data.adReviews
+      .filter((r) => r.adContentId === record.id)
+      .reverse()
+      .map((review) => {
+        const author = this.data.users.find((u) => u.id === review.authorId);
+        return { ...clone(review), authorName: author?.username ?? null };
+      });
+  }
+
+  async setAdPoolSource(name: string, sourceKey: string | null): Promise<SelectAdContent | undefined> {
+    const record = this.data.adContents.find((r) => r.name === name);
+    if (!record) return undefined;
+
+    record.poolSourceKey = sourceKey;
+    await this.persist();
+    return clone(record);
+  }
+
+  async refreshAdContentValue(name: string, field: string, value: FieldValue, source: string): Promise<SelectAdContent | undefined> {
+    const record = this.data.adContents.find((r) => r.name === name);
+    if (!record) return undefined;
+
+    this.data.adValueChanges.push({
+      id: this.data.nextIds.adValueChanges++,
+      adContentId: record.id,
+      field,
+      fromValue: clone(record.values[field]) ?? null,
+      toValue: clone(value),
+      source,
+      createdAt: new Date(),
+    });
+    // Signed-off ads go back to review, as with any other edit
+    const status = statusAfterEdit(record.status);
+    if (status !== record.status) {
+      this.data.adReviews.push({
+        id: this.data.nextIds.adReviews++,
+        adContentId: record.id,
+        action: "reopen",
+        fromStatus: record.status,
+        toStatus: status,
+        comment: `${field} refreshed from ${source} source`,
+        authorId: null,
+        createdAt: new Date(),
+      });
+    }
+    Object.assign(record, { values: { ...record.values, [field]: clone(value) }, status, updatedAt: new Date() });
+    await this.persist();
+    return clone(record);
+  }
+
+  async listAdValueChanges(name: string): Promise<AdValueChange[]> {
+    const record = this.data.adContents.find((r) => r.name === name);
+    if (!record) return [];
+
+    return clone(this.data.adValueChanges.filter((c) => c.adContentId === record.id).reverse());
+  }
+
+  async listTemplates(): Promise<Template[]> {
+    return clone([...this.data.templates].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)));
+  }
+
+  async getTemplate(id: number): Promise<Template | undefined> {
+    const template = this.data.templates.find((t) => t.id === id);
+    return template && clone(template);
+  }
+
+  async createTemplate(insertTemplate: InsertTemplate): Promise<Template> {
+    const template: Template = {
+      id: this.data.nextIds.templates++,
+      name: insertTemplate.name,
+      track: insertTemplate.track ?? null,
+      season: insertTemplate.season ?? null,
+      sponsor: insertTemplate.sponsor ?? null,
+      fileName: insertTemplate.fileName,
+      mimeType: insertTemplate.mimeType,
+      fields: insertTemplate.fields ?? null,
+      formats: insertTemplate.formats ?? null,
+      createdAt: new Date(),
+    };
+    this.data.templates.push(template);
+    await this.persist();
+    return clone(template);
+  }
+
+  async updateTemplateFields(id: number, fields: FieldDefinition[]): Promise<Template | undefined> {
+    return this.updateTemplate(id, { fields: clone(fields) });
+  }
+
+  async updateTemplateFormats(id: number, formats: TemplateFormat[]): Promise<Template | undefined> {
+    return this.updateTemplate(id, { formats: clone(formats) });
+  }
+
+  async deleteTemplate(id: number): Promise<Template | undefined> {
+    const template = this.data.templates.find((t) => t.id === id);
+    if (!template) return undefined;
+
+    this.data.templates = this.data.templates.filter((t) => t.id !== id);
+    // Mirrors the ON DELETE SET NULL on text_position_configs.template_id and ad_contents.template_id
+    for (const record of [...this.data.textPositionConfigs, ...this.data.adContents]) {
+      if (record.templateId === id) record.templateId = null;
+    }
+    // and the ON DELETE CASCADE on fonts.template_id
+    this.data.fonts = this.data.fonts.filter((f) => f.templateId !== id);
+
+    await this.persist();
+    return clone(template);
+  }
+
+  async listFonts(): Promise<SelectFont[]> {
+    return clone([...this.data.fonts].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)));
+  }
+
+  async getFont(id: number): Promise<SelectFont | undefined> {
+    const font = this.data.fonts.find((f) => f.id === id);
+    return font && clone(font);
+  }
+
+  async createFont(insertFont: InsertFont): Promise<SelectFont> {
+    if (this.data.fonts.some((f) => f.name === insertFont.name)) {
+      throw new Error(`Font "${insertFont.name}" already exists`);
+    }
+
+    const font: SelectFont = {
+      id: this.data.nextIds.fonts++,
+      name: insertFont.name,
+      family: insertFont.family,
+      weight: insertFont.weight,
+      style: insertFont.style,
+      fileName: insertFont.fileName,
+      mimeType: insertFont.mimeType,
+      license: insertFont.license ?? null,
+      templateId: insertFont.templateId ?? null,
+      createdAt: new Date(),
+    };
+    this.data.fonts.push(font);
+    await this.persist();
+    return clone(font);
+  }
+
+  async deleteFont(id: number): Promise<SelectFont | undefined> {
+    const font = this.data.fonts.find((f) => f.id === id);
+    if (!font) return undefined;
+
+    this.data.fonts = this.data.fonts.filter((f) => f.id !== id);
+    await this.persist();
+    return clone(font);
+  }
+
+  async listAssets(): Promise<Asset[]> {
+    return clone([...this.data.assets].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : a.id - b.id)));
+  }
+
+  async getAsset(id: number): Promise<Asset | undefined> {
+    const asset = this.data.assets.find((a) => a.id === id);
+    return asset && clone(asset);
+  }
+
+  async createAsset(insertAsset: InsertAsset): Promise<Asset> {
+    const asset: Asset = {
+      id: this.data.nextIds.assets++,
+      name: insertAsset.name,
+      fileName: insertAsset.fileName,
+      mimeType: insertAsset.mimeType,
+      createdAt: new Date(),
+    };
+    this.data.assets.push(asset);
+    await this.persist();
+    return clone(asset);
+  }
+
+  async deleteAsset(id: number): Promise<Asset | undefined> {
+    const asset = this.data.assets.find((a) => a.id === id);
+    if (!asset) return undefined;
+
+    this.data.assets = this.data.assets.filter((a) => a.id !== id);
+    await this.persist();
+    return clone(asset);
+  }
+
+  private async updateTemplate(id: number, changes: Partial<Template>): Promise<Template | undefined> {
+    const template = this.data.templates.find((t) => t.id === id);
+    if (!template) return undefined;
+
+    Object.assign(template, changes);
+    await this.persist();
+    return clone(template);
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { DEFAULT_AD_CONTENT, DEFAULT_FIELDS } from "@shared/defaults";
+
+// Refreshes read from the file adapter and render into a scratch upload directory. Both are
+// read when the modules load, so they're imported once the environment is set.
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pool-refresh-"));
+const poolFile = path.join(dir, "pools.json");
+Object.assign(process.env, { UPLOAD_DIR: dir, POOL_SOURCE: "file", POOL_SOURCE_FILE: poolFile, POOL_REFRESH_MINUTES: "600" });
+
+let poolRefresh: typeof import("./pool-refresh");
+let storage: typeof import("./storage").storage;
+let uploadPath: typeof import("./uploads").uploadPath;
+
+const writePools = (pools: Record<string, number>) => fs.writeFileSync(
+  poolFile,
+  JSON.stringify(Object.fromEntries(Object.entries(pools).map(([key, pool]) => [key, { projectedPool: pool }]))),
+);
+
+before(async () => {
+  poolRefresh = await import("./pool-refresh");
+  ({ storage } = await import("./storage"));
+  ({ uploadPath } = await import("./uploads"));
+  poolRefresh.startPoolRefreshScheduler();
+});
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+describe("runPoolRefresh", () => {
+  it("records the new pool, sends a signed-off ad back to review and re-renders it", async () => {
+    const name = `pool-${randomUUID()}`;
+    const key = `RAND-${randomUUID()}`;
+    await storage.saveAdContent(name, DEFAULT_AD_CONTENT);
+    await storage.setAdPoolSource(name, key);
+    await storage.reviewAdContent(name, { action: "approve", status: "approved", authorId: null });
+    writePools({ [key]: 180000 });
+
+    const results = await poolRefresh.runPoolRefresh();
+    assert.deepEqual(results.find((result) => result.name === name), { name, outcome: "updated" });
+
+    const [change] = await storage.listAdValueChanges(name);
+    assert.deepEqual(change.toValue, { amount: 180000, currency: "AUD" });
+    assert.equal(change.source, "file");
+
+    const record = await storage.getAdContentRecord(name);
+    assert.equal(record?.status, "in_review");
+    assert.equal((await storage.listAdReviews(name))[0].action, "reopen");
+
+    // A PNG, starting with its signature
+    const render = fs.readFileSync(uploadPath("renders", poolRefresh.renderFileName(record!)));
+    assert.equal(render.subarray(1, 4).toString(), "PNG");
+
+    const again = await poolRefresh.runPoolRefresh();
+    assert.deepEqual(again.find((result) => result.name === name), { name, outcome: "unchanged" });
+    await storage.deleteAdContent(name);
+  });
+
+  it("skips ads whose template has no projected pool amount", async () => {
+    const name = `pool-${randomUUID()}`;
+    const key = `RAND-${randomUUID()}`;
+    const template = await storage.createTemplate({ name, fileName: `${name}.png`, mimeType: "image/png" });
+    await storage.updateTemplateFields(template.id, DEFAULT_FIELDS.filter((field) => field.key !== "projectedPool"));
+    await storage.saveAdContent(name, DEFAULT_AD_CONTENT, { templateId: template.id, textConfigName: null });
+    await storage.setAdPoolSource(name, key);
+    writePools({ [key]: 180000 });
+
+    const result = (await poolRefresh.runPoolRefresh()).find((candidate) => candidate.name === name);
+    assert.equal(result?.outcome, "skipped");
+    assert.deepEqual(await storage.listAdValueChanges(name), []);
+    await storage.deleteAdContent(name);
+    await storage.deleteTemplate(template.id);
+  });
+});
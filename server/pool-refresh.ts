@@ -0,0 +1,95 @@
+import { isDeepStrictEqual } from "util";
+import { storage } from "./storage";
+import { renderSavedAd } from "./render";
+import { saveUpload } from "./uploads";
+import { createPoolSource, type PoolSourceAdapter } from "./pool-sources";
+import { type CurrencyValue, type SelectAdContent } from "@shared/schema";
+import { DEFAULT_CURRENCY, isCurrencyValue } from "@shared/currency";
+import { getPoolField, getTemplateFields, POOL_FIELD } from "@shared/fields";
+import { log } from "./vite";
+
+// Keeps projectedPool current on ads given a pool source key, every POOL_REFRESH_MINUTES
+// (default 5). Changed ads are re-rendered to uploads/renders/<ad id>.png.
+
+export interface PoolRefreshResult {
+  name: string;
+  outcome: "updated" | "unchanged" | "missing" | "skipped" | "failed";
+  error?: string;
+}
+
+let source: PoolSourceAdapter | undefined;
+let running: Promise<PoolRefreshResult[]> | null = null;
+
+export function poolRefreshEnabled(): boolean {
+  return !!source;
+}
+
+export function renderFileName(record: Pick<SelectAdContent, "id">): string {
+  return `${record.id}.png`;
+}
+
+async function refreshAd(ad: SelectAdContent, adapter: PoolSourceAdapter): Promise<PoolRefreshResult> {
+  // The ad may have moved to a template without a pool since it was given a source
+  const template = ad.templateId ? await storage.getTemplate(ad.templateId) : undefined;
+  const field = getPoolField(getTemplateFields(template));
+  if (!field) return { name: ad.name, outcome: "skipped", error: "The ad's template has no projected pool amount" };
+
+  const amount = await adapter.fetchPool(ad.poolSourceKey!);
+  if (amount === undefined) return { name: ad.name, outcome: "missing" };
+
+  // Pools keep the currency they were entered in
+  const current = ad.values[POOL_FIELD];
+  const pool: CurrencyValue = { amount, currency: isCurrencyValue(current) ? current.currency : field.currency ?? DEFAULT_CURRENCY };
+  if (isDeepStrictEqual(current, pool)) return { name: ad.name, outcome: "unchanged" };
+
+  // Signed-off ads go back to review, so the new figure is watermarked until approved again
+  const updated = await storage.refreshAdContentValue(ad.name, POOL_FIELD, pool, adapter.name);
+  if (!updated) return { name: ad.name, outcome: "missing" };
+
+  await saveUpload("renders", renderFileName(updated), await renderSavedAd(updated));
+  return { name: ad.name, outcome: "updated" };
+}
+
+async function refreshAll(adapter: PoolSourceAdapter): Promise<PoolRefreshResult[]> {
+  const ads = (await storage.listAdContents()).filter((ad) => ad.poolSourceKey);
+  const results: PoolRefreshResult[] = [];
+
+  // One at a time, so a slow source isn't hit with every meeting at once
+  for (const ad of ads) {
+    try {
+      results.push(await refreshAd(ad, adapter));
+    } catch (error) {
+      console.error(`Error refreshing pool for "${ad.name}":`, error);
+      results.push({ name: ad.name, outcome: "failed", error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const updated = results.filter((result) => result.outcome === "updated").length;
+  if (results.length > 0) log(`refreshed pools: ${updated} of ${results.length} ads changed`, "pools");
+  return results;
+}
+
+// Runs a refresh now; a run already in progress is joined rather than started twice
+export function runPoolRefresh(): Promise<PoolRefreshResult[]> {
+  if (!source) return Promise.resolve([]);
+  if (!running) {
+    running = refreshAll(source).finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
+
+export function startPoolRefreshScheduler(): void {
+  try {
+    source = createPoolSource();
+  } catch (error) {
+    console.error("Pool refresh is off:", error instanceof Error ? error.message : error);
+    return;
+  }
+  if (!source) return;
+
+  const minutes = Number(process.env.POOL_REFRESH_MINUTES) || 5;
+  setInterval(() => void runPoolRefresh(), minutes * 60_000).unref();
+  log(`refreshing pools from ${source.name} source every ${minutes} min`, "pools");
+}
@@ -0,0 +1,74 @@
+import fs from "fs/promises";
+import { toNumberValue } from "@shared/schema";
+
+// Where scheduled refreshes read projected pools from. Configured with:
+//   POOL_SOURCE=http|file       which adapter to use; refreshes are off when unset
+//   POOL_SOURCE_URL             http: JSON endpoint per meeting, with {key} for the ad's source key
+//   POOL_SOURCE_FILE            file: JSON object of documents keyed by source key, re-read every run
+//   POOL_SOURCE_FIELD           dotted path to the pool in each document (default "projectedPool")
+//
+// Both adapters read the same per-meeting document, so a saved HTTP response can stand in
+// for the live feed when testing.
+
+export interface PoolSourceAdapter {
+  // Recorded in the audit trail against every value it supplies
+  name: string;
+  // The meeting's pool, or undefined when the source has no figure for it
+  fetchPool(key: string): Promise<number | undefined>;
+}
+
+const HTTP_TIMEOUT_MS = 10_000;
+
+// Reads "pools.projected" style paths; pools may be numbers or numeric text
+function poolAtPath(document: unknown, fieldPath: string): number | undefined {
+  const value = fieldPath.split(".").reduce<unknown>(
+    (current, segment) => (current && typeof current === "object" ? (current as Record<string, unknown>)[segment] : undefined),
+    document,
+  );
+  const pool = toNumberValue(value);
+  return pool !== undefined && pool >= 0 ? pool : undefined;
+}
+
+export function createHttpPoolSource(urlTemplate: string, fieldPath: string): PoolSourceAdapter {
+  return {
+    name: "http",
+    async fetchPool(key) {
+      const url = urlTemplate.replace("{key}", encodeURIComponent(key));
+      const res = await fetch(url, { signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+      if (res.status === 404) return undefined;
+      if (!res.ok) {
+        throw new Error(`${url} responded ${res.status}`);
+      }
+      return poolAtPath(await res.json(), fieldPath);
+    },
+  };
+}
+
+export function createFilePoolSource(filePath: string, fieldPath: string): PoolSourceAdapter {
+  return {
+    name: "file",
+    async fetchPool(key) {
+      const documents = JSON.parse(await fs.readFile(filePath, "utf8")) as Record<string, unknown>;
+      return poolAtPath(documents[key], fieldPath);
+    },
+  };
+}
+
+// The adapter the environment asks for; undefined when refreshes aren't configured
+export function createPoolSource(env: NodeJS.ProcessEnv = process.env): PoolSourceAdapter | undefined {
+  const fieldPath = env.POOL_SOURCE_FIELD || "projectedPool";
+
+  switch (env.POOL_SOURCE) {
+    case undefined:
+    case "":
+      return undefined;
+    case "http":
+      if (!env.POOL_SOURCE_URL) throw new Error("POOL_SOURCE=http needs POOL_SOURCE_URL");
+      return createHttpPoolSource(env.POOL_SOURCE_URL, fieldPath);
+    case "file":
+      if (!env.POOL_SOURCE_FILE) throw new Error("POOL_SOURCE=file needs POOL_SOURCE_FILE");
+      return createFilePoolSource(env.POOL_SOURCE_FILE, fieldPath);
+    default:
+      throw new Error(`Unknown POOL_SOURCE "${env.POOL_SOURCE}"; use "http" or "file"`);
+  }
+}
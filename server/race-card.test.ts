@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { parseRaceCard, planRaceCardImport } from "./race-card";
+import { storage } from "./storage";
+import { DEFAULT_CURRENCY } from "@shared/currency";
+
+const meeting = (overrides: Record<string, unknown> = {}) => ({
+  venue: "Randwick",
+  date: "2026-10-24",
+  pool: 125000,
+  races: [
+    { number: 1, name: "Maiden Plate", startTime: "19:50", prize: 20000 },
+    { number: 2, name: "Emerald Stakes", startTime: "19:15", prize: 50000, feature: true },
+  ],
+  ...overrides,
+});
+
+const issueMessages = (result: ReturnType<typeof parseRaceCard>) => ("details" in result ? result.details?.map((issue) => issue.message) : undefined);
+
+describe("parseRaceCard", () => {
+  it("reads a JSON card holding a single meeting", () => {
+    const result = parseRaceCard("card.json", JSON.stringify(meeting()));
+    assert.ok("card" in result);
+    assert.deepEqual(result.card.meetings, [meeting()]);
+  });
+
+  it("reads an XML card, coercing attribute text into numbers and flags", () => {
+    const result = parseRaceCard("card.xml", `
+      <raceCard>
+        <meeting venue="Randwick" date="2026-10-24" pool="125000">
+          <race number="1" name="Emerald Stakes" startTime="19:15" prize="50000" feature="true"/>
+        </meeting>
+      </raceCard>`);
+
+    assert.ok("card" in result);
+    assert.deepEqual(result.card.meetings, [{
+      venue: "Randwick",
+      date: "2026-10-24",
+      pool: 125000,
+      races: [{ number: 1, name: "Emerald Stakes", startTime: "19:15", prize: 50000, feature: true }],
+    }]);
+  });
+
+  it("rejects days that don't exist and times off the clock", () => {
+    const result = parseRaceCard("card.json", JSON.stringify(meeting({
+      date: "2026-02-30",
+      races: [{ number: 1, name: "Emerald Stakes", startTime: "25:61" }],
+    })));
+
+    assert.ok("error" in result);
+    assert.deepEqual(issueMessages(result), [
+      "Meeting dates must be real days written as YYYY-MM-DD",
+      "Race start times must be written as HH:mm between 00:00 and 23:59, e.g. 19:15",
+    ]);
+  });
+
+  it("reports files that are neither JSON nor well-formed XML", () => {
+    assert.deepEqual(parseRaceCard("card.json", "{ meetings"), { error: "The file is not valid JSON or XML" });
+
+    const unclosed = parseRaceCard("card.xml", "<raceCard><meeting>");
+    assert.ok("error" in unclosed);
+    assert.match(unclosed.error, /^Invalid XML on line 1/);
+  });
+});
+
+describe("planRaceCardImport", () => {
+  it("lists only the fields the import would change", async () => {
+    const name = `Randwick ${randomUUID()}`;
+    await storage.saveAdContent(name, {
+      raceName: "Emerald Stakes",
+      prizeAmount: { amount: 50000, currency: DEFAULT_CURRENCY },
+      projectedPool: { amount: 100000, currency: DEFAULT_CURRENCY },
+      day: "2026-10-24T19:15",
+      numberOfRaces: 8,
+    });
+
+    const result = parseRaceCard("card.json", JSON.stringify(meeting({ name })));
+    assert.ok("card" in result);
+    const [plan] = await planRaceCardImport(result.card);
+
+    assert.equal(plan.exists, true);
+    assert.deepEqual(plan.errors, []);
+    assert.deepEqual(plan.changes, [
+      { field: "projectedPool", label: "Projected Pool", from: { amount: 100000, currency: DEFAULT_CURRENCY }, to: { amount: 125000, currency: DEFAULT_CURRENCY } },
+      { field: "numberOfRaces", label: "Number of Races", from: 8, to: 2 },
+    ]);
+    await storage.deleteAdContent(name);
+  });
+
+  it("names new ads after the venue and date", async () => {
+    const result = parseRaceCard("card.json", JSON.stringify(meeting({ venue: `Venue ${randomUUID()}` })));
+    assert.ok("card" in result);
+    const [plan] = await planRaceCardImport(result.card);
+
+    assert.match(plan.name, /^Venue .+ 24 Oct 2026$/);
+    assert.equal(plan.exists, false);
+    assert.deepEqual(plan.changes.map((change) => change.field), ["raceName", "prizeAmount", "projectedPool", "day", "numberOfRaces"]);
+  });
+});
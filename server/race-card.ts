@@ -0,0 +1,156 @@
+import { isDeepStrictEqual } from "util";
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import { format, parseISO } from "date-fns";
+import { z } from "zod";
+import { storage } from "./storage";
+import {
+  adContentNameSchema,
+  buildAdContentSchema,
+  raceCardSchema,
+  type AdContent,
+  type AdContentChange,
+  type FieldDefinition,
+  type RaceCard,
+  type RaceCardImport,
+  type RaceCardMeeting,
+} from "@shared/schema";
+import { getTemplateFields, withFieldDefaults } from "@shared/fields";
+import { DEFAULT_CURRENCY } from "@shared/currency";
+
+// Race cards come as JSON or XML. Both describe meetings with their races:
+//
+//   { "meetings": [{ "venue": "Randwick", "date": "2026-10-24", "pool": 125000,
+//       "races": [{ "number": 1, "name": "Emerald Stakes", "startTime": "19:15", "prize": 50000, "feature": true }] }] }
+//
+//   <raceCard><meeting venue="Randwick" date="2026-10-24" pool="125000">
+//     <race number="1" name="Emerald Stakes" startTime="19:15" prize="50000" feature="true"/>
+//   </meeting></raceCard>
+//
+// A file holding a single meeting, or a list of them, is also accepted.
+
+export type RaceCardParseResult = { card: RaceCard } | { error: string; details?: z.ZodIssue[] };
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  parseTagValue: false,
+  isArray: (name) => name === "meeting" || name === "race",
+});
+
+type RawMeeting = Record<string, unknown> & { race?: unknown; races?: unknown };
+
+// Element names are singular in XML; lists are plural in JSON
+function fromXml(data: string): unknown {
+  const document = xmlParser.parse(data) as Record<string, Record<string, unknown> & { meeting?: RawMeeting[] }>;
+  const root = document.raceCard ?? { meeting: document.meeting };
+  const meetings = (root.meeting ?? []).map(({ race, ...meeting }) => ({ ...meeting, races: race ?? [] }));
+  return { meetings };
+}
+
+function fromJson(data: string): unknown {
+  const parsed = JSON.parse(data) as unknown;
+  if (Array.isArray(parsed)) return { meetings: parsed };
+  const root = parsed as Record<string, unknown> | null;
+  return root && "races" in root ? { meetings: [root] } : root;
+}
+
+export function parseRaceCard(fileName: string, data: string): RaceCardParseResult {
+  const isXml = fileName.toLowerCase().endsWith(".xml") || data.trimStart().startsWith("<");
+  let raw: unknown;
+
+  if (isXml) {
+    const valid = XMLValidator.validate(data);
+    if (valid !== true) {
+      return { error: `Invalid XML on line ${valid.err.line}: ${valid.err.msg}` };
+    }
+    raw = fromXml(data);
+  } else {
+    try {
+      raw = fromJson(data);
+    } catch {
+      return { error: "The file is not valid JSON or XML" };
+    }
+  }
+
+  const validation = raceCardSchema.safeParse(raw);
+  if (!validation.success) {
+    return { error: "Invalid race card", details: validation.error.issues };
+  }
+  return { card: validation.data };
+}
+
+// The race the ad leads with: the one marked as the feature, else the richest
+function featureRace(meeting: RaceCardMeeting) {
+  return meeting.races.find((race) => race.feature)
+    ?? meeting.races.reduce((best, race) => ((race.prize ?? 0) > (best.prize ?? 0) ? race : best));
+}
+
+export function meetingAdName(meeting: RaceCardMeeting): string {
+  return meeting.name ?? `${meeting.venue} ${format(parseISO(meeting.date), "d MMM yyyy")}`;
+}
+
+// Values for the built-in fields the race card knows about; figures the file leaves out are left alone
+export function meetingAdContent(meeting: RaceCardMeeting): AdContent {
+  const feature = featureRace(meeting);
+  const currency = meeting.currency ?? DEFAULT_CURRENCY;
+  const firstPost = meeting.races
+    .map((race) => race.startTime.padStart(5, "0"))
+    .sort()[0];
+
+  return {
+    raceName: feature.name,
+    ...(feature.prize !== undefined ? { prizeAmount: { amount: feature.prize, currency } } : {}),
+    ...(meeting.pool !== undefined ? { projectedPool: { amount: meeting.pool, currency } } : {}),
+    day: `${meeting.date}T${firstPost}`,
+    numberOfRaces: meeting.races.length,
+  };
+}
+
+// Fields whose stored value would change, in template order
+function diffAdContent(before: AdContent | undefined, after: AdContent, fields: FieldDefinition[]): AdContentChange[] {
+  const labels = new Map(fields.map((field) => [field.key, field.label]));
+  const keys = Array.from(new Set([...fields.map((field) => field.key), ...Object.keys(after)]));
+
+  return keys
+    .filter((key) => after[key] !== undefined && !isDeepStrictEqual(before?.[key], after[key]))
+    .map((key) => ({ field: key, label: labels.get(key) ?? key, from: before?.[key], to: after[key] }));
+}
+
+export interface PlannedImport extends RaceCardImport {
+  // The validated content to save; absent when the import has errors
+  values?: AdContent;
+}
+
+// Works out what importing each meeting would do, checked against the fields of the
+// template each existing ad uses. New ads use the built-in template.
+export async function planRaceCardImport(card: RaceCard): Promise<PlannedImport[]> {
+  const plans: PlannedImport[] = [];
+
+  for (const meeting of card.meetings) {
+    const name = meetingAdName(meeting);
+    const existing = await storage.getAdContentRecord(name);
+    const template = existing?.templateId ? await storage.getTemplate(existing.templateId) : undefined;
+    const fields = getTemplateFields(template);
+
+    const errors: string[] = [];
+    const nameValidation = adContentNameSchema.safeParse({ name });
+    if (!nameValidation.success) errors.push(...nameValidation.error.issues.map((issue) => issue.message));
+    if (plans.some((plan) => plan.name === name)) errors.push(`The file has more than one meeting for "${name}"`);
+
+    const merged = withFieldDefaults({ ...existing?.values, ...meetingAdContent(meeting) }, fields);
+    const validation = buildAdContentSchema(fields).safeParse(merged);
+    if (!validation.success) errors.push(...validation.error.issues.map((issue) => issue.message));
+
+    const values = validation.success ? { ...merged, ...validation.data } : merged;
+    plans.push({
+      name,
+      exists: !!existing,
+      status: existing?.status,
+      changes: diffAdContent(existing?.values, values, fields),
+      errors,
+      ...(errors.length === 0 ? { values } : {}),
+    });
+  }
+
+  return plans;
+}
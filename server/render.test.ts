@@ -0,0 +1,43 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { GlobalFonts } from "@napi-rs/canvas";
+import { DEFAULT_AD_CONTENT } from "@shared/defaults";
+
+// Uploads are read from a scratch directory, which is fixed when the modules load
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "render-"));
+process.env.UPLOAD_DIR = dir;
+
+let renderAdPng: typeof import("./render").renderAdPng;
+let storage: typeof import("./storage").storage;
+let uploadPath: typeof import("./uploads").uploadPath;
+
+before(async () => {
+  ({ renderAdPng } = await import("./render"));
+  ({ storage } = await import("./storage"));
+  ({ uploadPath } = await import("./uploads"));
+});
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+describe("renderAdPng", () => {
+  it("stops using an uploaded font once it's deleted", async () => {
+    const family = `Brand ${randomUUID()}`;
+    const fileName = `${randomUUID()}.otf`;
+    fs.mkdirSync(path.join(dir, "fonts"), { recursive: true });
+    fs.copyFileSync(
+      path.resolve(import.meta.dirname, "..", "attached_assets", "Montserrat-Bold_1756701526213.otf"),
+      uploadPath("fonts", fileName),
+    );
+    const font = await storage.createFont({ name: family, family, weight: 700, style: "normal", fileName, mimeType: "font/otf" });
+
+    await renderAdPng(DEFAULT_AD_CONTENT);
+    assert.equal(GlobalFonts.has(family), true);
+
+    await storage.deleteFont(font.id);
+    await renderAdPng(DEFAULT_AD_CONTENT);
+    assert.equal(GlobalFonts.has(family), false);
+  });
+});
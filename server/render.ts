@@ -0,0 +1,146 @@
+import path from "path";
+import { createCanvas, GlobalFonts, loadImage, type FontKey, type Image } from "@napi-rs/canvas";
+import { type AdContent, type SelectAdContent, type Template, type TemplateFormat, type TextConfig } from "@shared/schema";
+import { getImageLayers, renderAd, type AssetImage, type AssetImages } from "@shared/ad-renderer";
+import { PRIMARY_FORMAT, findTemplateFormat, isPrimaryFormat } from "@shared/formats";
+import { getTemplateFields, withFieldDefaults } from "@shared/fields";
+import { DEFAULT_TEXT_CONFIG } from "@shared/defaults";
+import { setUploadedFonts } from "@shared/fonts";
+import { DRAFT_WATERMARK, isExportable } from "@shared/workflow";
+import { storage } from "./storage";
+import { uploadPath } from "./uploads";
+
+const assetsDir = path.resolve(import.meta.dirname, "..", "attached_assets");
+
+// Same OTFs the client ships; registered under the family name BUILTIN_FONTS use
+const FONT_FILES = [
+  "Montserrat-Black_1756701526212.otf",
+  "Montserrat-Bold_1756701526213.otf",
+  "Montserrat-BoldItalic_1756701526213.otf",
+];
+
+const TEMPLATE_FILE = "2025_08_Green_Harness_Template_1756701532557.png";
+
+let fontsRegistered = false;
+// Uploaded font id -> its registered face; null when the file couldn't be registered
+const registeredFonts = new Map<number, FontKey | null>();
+let builtinTemplateImage: Promise<Image | null> | null = null;
+
+// Bundled faces once, then brings uploaded fonts in line with the registry: new ones are
+// registered and deleted ones removed, so renders stop using them as the browser does.
+// Skia picks a face's weight and style from the file itself, so uploads should match the
+// metadata given.
+async function registerFonts(): Promise<void> {
+  if (!fontsRegistered) {
+    for (const file of FONT_FILES) {
+      GlobalFonts.registerFromPath(path.join(assetsDir, file), "Montserrat");
+    }
+    fontsRegistered = true;
+  }
+
+  const uploaded = await storage.listFonts();
+  const uploadedIds = new Set(uploaded.map((font) => font.id));
+  for (const [id, key] of Array.from(registeredFonts)) {
+    if (uploadedIds.has(id)) continue;
+    if (key) GlobalFonts.remove(key);
+    registeredFonts.delete(id);
+  }
+
+  for (const font of uploaded) {
+    if (registeredFonts.has(font.id)) continue;
+    const key = GlobalFonts.registerFromPath(uploadPath("fonts", font.fileName), font.family);
+    if (!key) {
+      console.warn(`Font "${font.name}" could not be registered, using fallback`);
+    }
+    registeredFonts.set(font.id, key);
+  }
+  setUploadedFonts(uploaded);
+}
+
+function loadTemplateImage(filePath: string): Promise<Image | null> {
+  return loadImage(filePath).catch((error) => {
+    console.warn("Template image failed to load, using fallback:", error);
+    return null;
+  });
+}
+
+function loadBuiltinTemplateImage(): Promise<Image | null> {
+  if (!builtinTemplateImage) {
+    builtinTemplateImage = loadTemplateImage(path.join(assetsDir, TEMPLATE_FILE));
+  }
+  return builtinTemplateImage;
+}
+
+function loadFormatBackground(template: Template | undefined, format: TemplateFormat): Promise<Image | null> {
+  if (!isPrimaryFormat(format.key)) {
+    // Extra formats without their own background get the fallback gradient
+    return format.fileName ? loadTemplateImage(uploadPath("templates", format.fileName)) : Promise.resolve(null);
+  }
+  return template ? loadTemplateImage(uploadPath("templates", template.fileName)) : loadBuiltinTemplateImage();
+}
+
+// The assets the config's image layers draw; ones that are deleted or fail to load are left out
+async function loadAssetImages(textConfig: TextConfig): Promise<AssetImages> {
+  const images: AssetImages = {};
+  for (const { layer } of getImageLayers(textConfig)) {
+    if (layer.assetId in images) continue;
+
+    const asset = await storage.getAsset(layer.assetId);
+    if (!asset) continue;
+    try {
+      images[asset.id] = (await loadImage(uploadPath("assets", asset.fileName))) as unknown as AssetImage;
+    } catch (error) {
+      console.warn(`Asset "${asset.name}" failed to load, leaving its layer empty:`, error);
+    }
+  }
+  return images;
+}
+
+// Renders onto an uploaded template, or the bundled Green Harness PNG when none is given.
+// A watermark is drawn over everything, e.g. for ads that haven't been approved.
+export async function renderAdPng(
+  content: AdContent,
+  textConfig?: TextConfig,
+  template?: Template,
+  format: TemplateFormat = PRIMARY_FORMAT,
+  watermark?: string,
+): Promise<Buffer> {
+  await registerFonts();
+  const image = await loadFormatBackground(template, format);
+  const assetImages = await loadAssetImages(textConfig ?? DEFAULT_TEXT_CONFIG);
+
+  const canvas = createCanvas(format.width, format.height);
+  const ctx = canvas.getContext("2d");
+
+  // The skia context implements the subset of the DOM canvas API that renderAd uses
+  renderAd(
+    ctx as unknown as CanvasRenderingContext2D,
+    canvas.width,
+    canvas.height,
+    image as unknown as CanvasImageSource | null,
+    content,
+    textConfig,
+    getTemplateFields(template),
+    watermark,
+    assetImages,
+    (width, height) => createCanvas(width, height).getContext("2d") as unknown as CanvasRenderingContext2D,
+  );
+
+  return canvas.encode("png");
+}
+
+// The template and output format a text config is bound to
+export async function bindingForConfig(configName: string): Promise<{ template?: Template; format: TemplateFormat }> {
+  const record = await storage.getTextPositionConfigRecord(configName);
+  const template = record?.templateId ? await storage.getTemplate(record.templateId) : undefined;
+  return { template, format: findTemplateFormat(template, record?.format) ?? PRIMARY_FORMAT };
+}
+
+// Renders a saved ad with the text config it was last edited with unless another is named.
+// Layouts nobody has saved yet use the default positions; unapproved ads are marked DRAFT.
+export async function renderSavedAd(record: SelectAdContent, configName = record.textConfigName ?? "default"): Promise<Buffer> {
+  const config = (await storage.getTextPositionConfig(configName)) ?? DEFAULT_TEXT_CONFIG;
+  const { template, format } = await bindingForConfig(configName);
+  const watermark = isExportable(record.status) ? undefined : DRAFT_WATERMARK;
+  return renderAdPng(withFieldDefaults(record.values, getTemplateFields(template)), config, template, format, watermark);
+}
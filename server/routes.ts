@@ -1,7 +1,53 @@
 import type { Express } from "express";
+import fs from "fs";
+import { isDeepStrictEqual } from "util";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { textConfigSchema, adContentSchema } from "@shared/schema";
+import { storage, type AdContentBinding, type TextConfigBinding } from "./storage";
+import { requirePermission } from "./auth";
+import { hasPermission } from "@shared/permissions";
+import { bindingForConfig, renderAdPng, renderSavedAd } from "./render";
+import { parseRaceCard, planRaceCardImport } from "./race-card";
+import { poolRefreshEnabled, renderFileName, runPoolRefresh } from "./pool-refresh";
+import { saveDataUrl, saveFontDataUrl, deleteUpload, uploadPath } from "./uploads";
+import { textConfigSchema, adContentSchema, adContentNameSchema, adReviewRequestSchema, createAdContentSchema, createTextConfigSchema, renderRequestSchema, templateUploadSchema, templateFormatUploadSchema, fieldDefinitionsSchema, buildAdContentSchema, raceCardUploadSchema, poolSourceSchema, fontUploadSchema, assetUploadSchema, type AdContent, type SelectAdContent, type Template, type TemplateFormat } from "@shared/schema";
+import { getPoolField, getTemplateFields, withFieldDefaults } from "@shared/fields";
+import { PRIMARY_FORMAT, findTemplateFormat, isPrimaryFormat, textConfigNameForTemplate } from "@shared/formats";
+import { DEFAULT_TEXT_CONFIG } from "@shared/defaults";
+import { BUILTIN_FONTS, fontName } from "@shared/fonts";
+import { getImageLayers } from "@shared/ad-renderer";
+import { migrateTextConfig, upgradeTextConfig } from "@shared/migrate";
+import { AD_STATUS_LABELS, DRAFT_WATERMARK, REVIEW_ACTIONS, statusAfterEdit } from "@shared/workflow";
+
+// Resolves ?templateId=; "" or absent means the built-in template, "invalid" an unknown id
+async function templateFromQuery(value: unknown): Promise<Template | undefined | "invalid"> {
+  if (typeof value !== "string" || value === "") return undefined;
+
+  const id = Number(value);
+  const template = Number.isInteger(id) ? await storage.getTemplate(id) : undefined;
+  return template ?? "invalid";
+}
+
+// Saves ad content; any change to a signed-off ad sends it back to review
+async function saveAdContentForReview(name: string, content: AdContent, binding: AdContentBinding | undefined, userId: string): Promise<SelectAdContent> {
+  const existing = await storage.getAdContentRecord(name);
+  const savedContent = await storage.saveAdContent(name, content, binding);
+
+  const edited = !!existing && (
+    !isDeepStrictEqual(existing.values, savedContent.values)
+    || existing.templateId !== savedContent.templateId
+    || existing.textConfigName !== savedContent.textConfigName
+  );
+  if (edited && statusAfterEdit(existing.status) !== existing.status) {
+    const reopened = await storage.reviewAdContent(name, {
+      action: "reopen",
+      status: statusAfterEdit(existing.status),
+      authorId: userId,
+    });
+    return reopened ?? savedContent;
+  }
+
+  return savedContent;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Get text positioning configuration
@@ -22,10 +68,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Save text positioning configuration
-  app.post("/api/text-config/:name", async (req, res) => {
+  app.post("/api/text-config/:name", requirePermission("layout:edit"), async (req, res) => {
     try {
       const { name } = req.params;
-      const validation = textConfigSchema.safeParse(req.body);
+      // Clients and scripts may still post the shape from before vertical anchors and layers
+      const validation = textConfigSchema.safeParse(upgradeTextConfig(req.body));
       
       if (!validation.success) {
         return res.status(400).json({ 
@@ -33,8 +80,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
           details: validation.error.issues 
         });
       }
+
+      const assetIds = new Set((await storage.listAssets()).map((asset) => asset.id));
+      const missingAsset = getImageLayers(validation.data).find(({ layer }) => !assetIds.has(layer.assetId));
+      if (missingAsset) {
+        return res.status(400).json({ error: `Image layer "${missingAsset.key}" uses an unknown asset` });
+      }
+      
+      // ?templateId= (and optionally &format=) rebinds the config; omit it to keep the current binding
+      let binding: TextConfigBinding | undefined;
+      if (typeof req.query.templateId === "string") {
+        const template = await templateFromQuery(req.query.templateId);
+        const format = typeof req.query.format === "string" ? req.query.format : null;
+
+        if (template === "invalid") {
+          return res.status(400).json({ error: "Unknown template" });
+        }
+        if (!findTemplateFormat(template, format)) {
+          return res.status(400).json({ error: "Unknown format" });
+        }
+
+        binding = { templateId: template?.id ?? null, format: isPrimaryFormat(format) ? null : format };
+      }
       
-      const savedConfig = await storage.saveTextPositionConfig(name, validation.data);
+      const savedConfig = await storage.saveTextPositionConfig(name, validation.data, binding, { authorId: req.user!.id });
       res.json(savedConfig);
     } catch (error) {
       console.error("Error saving text config:", error);
@@ -42,6 +111,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every saved version of a text config, newest first
+  app.get("/api/text-config/:name/revisions", async (req, res) => {
+    try {
+      const revisions = await storage.listTextConfigRevisions(req.params.name);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error listing text config revisions:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Roll a text config back to an earlier revision; the rollback is itself a new revision
+  app.post("/api/text-config/:name/revisions/:id/restore", requirePermission("layout:edit"), async (req, res) => {
+    try {
+      const { name } = req.params;
+      const id = Number(req.params.id);
+      const revision = Number.isInteger(id) ? await storage.getTextConfigRevision(id) : undefined;
+
+      if (!revision || revision.configName !== name) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      const savedConfig = await storage.saveTextPositionConfig(name, migrateTextConfig(revision.config), undefined, {
+        authorId: req.user!.id,
+        restoredFromId: revision.id,
+      });
+      res.json(savedConfig);
+    } catch (error) {
+      console.error("Error restoring text config revision:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // List all text positioning configurations
   app.get("/api/text-configs", async (req, res) => {
     try {
@@ -53,6 +155,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Start a layout for a template format from the default positions
+  app.post("/api/text-configs", requirePermission("layout:edit"), async (req, res) => {
+    try {
+      const validation = createTextConfigSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid configuration",
+          details: validation.error.issues
+        });
+      }
+
+      const { templateId, format } = validation.data;
+      const template = templateId === null ? undefined : await storage.getTemplate(templateId);
+
+      if (templateId !== null && !template) {
+        return res.status(400).json({ error: "Unknown template" });
+      }
+      if (!findTemplateFormat(template, format)) {
+        return res.status(400).json({ error: "Unknown format" });
+      }
+
+      const name = textConfigNameForTemplate(templateId, format);
+      if (await storage.getTextPositionConfigRecord(name)) {
+        return res.status(409).json({ error: "That layout already exists" });
+      }
+
+      const savedConfig = await storage.saveTextPositionConfig(
+        name,
+        DEFAULT_TEXT_CONFIG,
+        { templateId, format: isPrimaryFormat(format) ? null : format },
+        { authorId: req.user!.id },
+      );
+      res.status(201).json(savedConfig);
+    } catch (error) {
+      console.error("Error creating text config:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   // Get ad content
   app.get("/api/ad-content/:name", async (req, res) => {
     try {
@@ -71,10 +213,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Save ad content
-  app.post("/api/ad-content/:name", async (req, res) => {
+  app.post("/api/ad-content/:name", requirePermission("content:edit"), async (req, res) => {
     try {
       const { name } = req.params;
-      const validation = adContentSchema.safeParse(req.body);
+      const template = await templateFromQuery(req.query.templateId);
+
+      if (template === "invalid") {
+        return res.status(400).json({ error: "Unknown template" });
+      }
+
+      // Content must supply every field the template declares
+      const validation = adContentSchema
+        .pipe(buildAdContentSchema(getTemplateFields(template)))
+        .safeParse(req.body);
       
       if (!validation.success) {
         return res.status(400).json({ 
@@ -83,14 +234,718 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const savedContent = await storage.saveAdContent(name, validation.data);
-      res.json(savedContent);
+      // ?templateId= (and &config=) also records what the ad is edited with
+      const binding: AdContentBinding | undefined = typeof req.query.templateId === "string"
+        ? { templateId: template?.id ?? null, textConfigName: typeof req.query.config === "string" ? req.query.config : null }
+        : undefined;
+
+      res.json(await saveAdContentForReview(name, validation.data, binding, req.user!.id));
     } catch (error) {
       console.error("Error saving ad content:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
 
+  // List saved ads
+  app.get("/api/ad-contents", async (req, res) => {
+    try {
+      const contents = await storage.listAdContents();
+      res.json(contents);
+    } catch (error) {
+      console.error("Error listing ad contents:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Start a new ad from a template's field defaults, bound to its primary layout
+  app.post("/api/ad-contents", requirePermission("content:edit"), async (req, res) => {
+    try {
+      const validation = createAdContentSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid ad",
+          details: validation.error.issues
+        });
+      }
+
+      const { name, templateId } = validation.data;
+      const template = templateId === null ? undefined : await storage.getTemplate(templateId);
+
+      if (templateId !== null && !template) {
+        return res.status(400).json({ error: "Unknown template" });
+      }
+      if (await storage.getAdContentRecord(name)) {
+        return res.status(409).json({ error: `An ad named "${name}" already exists` });
+      }
+
+      const created = await storage.saveAdContent(name, withFieldDefaults(undefined, getTemplateFields(template)), {
+        templateId,
+        textConfigName: textConfigNameForTemplate(templateId),
+      });
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error creating ad content:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Rename a saved ad
+  app.post("/api/ad-content/:name/rename", requirePermission("content:edit"), async (req, res) => {
+    try {
+      const validation = adContentNameSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid ad name",
+          details: validation.error.issues
+        });
+      }
+
+      const { name } = req.params;
+      const newName = validation.data.name;
+
+      if (newName !== name && await storage.getAdContentRecord(newName)) {
+        return res.status(409).json({ error: `An ad named "${newName}" already exists` });
+      }
+
+      const renamed = await storage.renameAdContent(name, newName);
+      if (!renamed) {
+        return res.status(404).json({ error: "Ad content not found" });
+      }
+
+      res.json(renamed);
+    } catch (error) {
+      console.error("Error renaming ad content:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Copy a saved ad, with its template binding, under a new name
+  app.post("/api/ad-content/:name/duplicate", requirePermission("content:edit"), async (req, res) => {
+    try {
+      const validation = adContentNameSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid ad name",
+          details: validation.error.issues
+        });
+      }
+
+      const newName = validation.data.name;
+      if (await storage.getAdContentRecord(newName)) {
+        return res.status(409).json({ error: `An ad named "${newName}" already exists` });
+      }
+
+      const duplicate = await storage.duplicateAdContent(req.params.name, newName);
+      if (!duplicate) {
+        return res.status(404).json({ error: "Ad content not found" });
+      }
+
+      res.status(201).json(duplicate);
+    } catch (error) {
+      console.error("Error duplicating ad content:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Submit, approve, reject or publish an ad, or comment on it
+  app.post("/api/ad-content/:name/review", async (req, res) => {
+    try {
+      const validation = adReviewRequestSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid review",
+          details: validation.error.issues
+        });
+      }
+
+      const { name } = req.params;
+      const { action, comment } = validation.data;
+      const rule = REVIEW_ACTIONS[action];
+
+      if (!rule.permissions.some((permission) => hasPermission(req.user, permission))) {
+        return res.status(403).json({ error: "Insufficient permissions" });
+      }
+
+      const record = await storage.getAdContentRecord(name);
+      if (!record) {
+        return res.status(404).json({ error: "Ad content not found" });
+      }
+      if (!rule.from.includes(record.status)) {
+        return res.status(409).json({ error: `Can't ${action} an ad that is ${AD_STATUS_LABELS[record.status].toLowerCase()}` });
+      }
+
+      const reviewed = await storage.reviewAdContent(name, {
+        action,
+        status: rule.to ?? record.status,
+        comment,
+        authorId: req.user!.id,
+      });
+      res.json(reviewed);
+    } catch (error) {
+      console.error("Error reviewing ad content:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // An ad's review trail, newest first
+  app.get("/api/ad-content/:name/reviews", async (req, res) => {
+    try {
+      const reviews = await storage.listAdReviews(req.params.name);
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error listing ad reviews:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Delete a saved ad
+  app.delete("/api/ad-content/:name", requirePermission("content:edit"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteAdContent(req.params.name);
+
+      if (!deleted) {
+        return res.status(404).json({ error: "Ad content not found" });
+      }
+
+      await deleteUpload("renders", renderFileName(deleted));
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting ad content:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Choose the meeting whose live pool keeps this ad's projectedPool current, or stop with null
+  app.put("/api/ad-content/:name/pool-source", requirePermission("content:edit"), async (req, res) => {
+    try {
+      const validation = poolSourceSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid pool source",
+          details: validation.error.issues
+        });
+      }
+
+      const existing = await storage.getAdContentRecord(req.params.name);
+      if (!existing) {
+        return res.status(404).json({ error: "Ad content not found" });
+      }
+
+      // Refreshes only write amounts into a projected pool currency field
+      const template = existing.templateId === null ? undefined : await storage.getTemplate(existing.templateId);
+      if (validation.data.sourceKey && !getPoolField(getTemplateFields(template))) {
+        return res.status(400).json({ error: "This ad's template has no projected pool amount to follow" });
+      }
+
+      const record = await storage.setAdPoolSource(req.params.name, validation.data.sourceKey);
+      if (!record) {
+        return res.status(404).json({ error: "Ad content not found" });
+      }
+
+      res.json(record);
+    } catch (error) {
+      console.error("Error setting pool source:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Values scheduled refreshes have changed, newest first
+  app.get("/api/ad-content/:name/value-changes", async (req, res) => {
+    try {
+      const changes = await storage.listAdValueChanges(req.params.name);
+      res.json(changes);
+    } catch (error) {
+      console.error("Error listing ad value changes:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The image rendered by the last refresh that changed the ad
+  app.get("/api/ad-content/:name/refreshed-render", requirePermission("render"), async (req, res) => {
+    try {
+      const record = await storage.getAdContentRecord(req.params.name);
+      const filePath = record && uploadPath("renders", renderFileName(record));
+
+      if (!filePath || !fs.existsSync(filePath)) {
+        return res.status(404).json({ error: "No refreshed render for this ad" });
+      }
+
+      res.type("png").sendFile(filePath);
+    } catch (error) {
+      console.error("Error fetching refreshed render:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Refresh pools now rather than waiting for the next scheduled run
+  app.post("/api/pool-refresh", requirePermission("content:edit"), async (req, res) => {
+    try {
+      if (!poolRefreshEnabled()) {
+        return res.status(409).json({ error: "Pool refreshes aren't configured; set POOL_SOURCE" });
+      }
+
+      res.json(await runPoolRefresh());
+    } catch (error) {
+      console.error("Error refreshing pools:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Show what importing a race card would change, ad by ad, without saving anything
+  app.post("/api/race-cards/preview", requirePermission("content:edit"), async (req, res) => {
+    try {
+      const validation = raceCardUploadSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid race card upload",
+          details: validation.error.issues
+        });
+      }
+
+      const parsed = parseRaceCard(validation.data.fileName, validation.data.data);
+      if ("error" in parsed) {
+        return res.status(400).json(parsed);
+      }
+
+      const plans = await planRaceCardImport(parsed.card);
+      res.json(plans.map(({ values, ...plan }) => plan));
+    } catch (error) {
+      console.error("Error previewing race card:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Create or update the ads for a race card's meetings; names limits it to the ones chosen in the preview.
+  // Meetings with errors or nothing to change are skipped.
+  app.post("/api/race-cards/apply", requirePermission("content:edit"), async (req, res) => {
+    try {
+      const validation = raceCardUploadSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid race card upload",
+          details: validation.error.issues
+        });
+      }
+
+      const { fileName, data, names } = validation.data;
+      const parsed = parseRaceCard(fileName, data);
+      if ("error" in parsed) {
+        return res.status(400).json(parsed);
+      }
+
+      const plans = (await planRaceCardImport(parsed.card))
+        .filter((plan) => plan.values && plan.changes.length > 0 && (!names || names.includes(plan.name)));
+
+      const saved: SelectAdContent[] = [];
+      for (const plan of plans) {
+        // New ads use the built-in template; existing ones keep theirs
+        const binding = plan.exists ? undefined : { templateId: null, textConfigName: textConfigNameForTemplate(null) };
+        saved.push(await saveAdContentForReview(plan.name, plan.values!, binding, req.user!.id));
+      }
+
+      res.json(saved);
+    } catch (error) {
+      console.error("Error importing race card:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Render an ad from posted content and a stored text config
+  app.post("/api/render", requirePermission("render"), async (req, res) => {
+    try {
+      const validation = renderRequestSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid render request format",
+          details: validation.error.issues
+        });
+      }
+
+      // Layouts nobody has saved yet render with the default positions, as the editor previews them
+      const { content, config: configName } = validation.data;
+      const config = (await storage.getTextPositionConfig(configName)) ?? DEFAULT_TEXT_CONFIG;
+
+      const { template, format } = await bindingForConfig(configName);
+      const contentValidation = buildAdContentSchema(getTemplateFields(template)).safeParse(content);
+
+      if (!contentValidation.success) {
+        return res.status(400).json({
+          error: "Invalid ad content format",
+          details: contentValidation.error.issues
+        });
+      }
+
+      // Posted content hasn't been through review, so it is always marked as a draft
+      const png = await renderAdPng(contentValidation.data, config, template, format, DRAFT_WATERMARK);
+      res.type("png").send(png);
+    } catch (error) {
+      console.error("Error rendering ad:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Render a stored ad content record with a stored text config; watermarked until approved
+  app.get("/api/render/:contentName", requirePermission("render"), async (req, res) => {
+    try {
+      const { contentName } = req.params;
+
+      const record = await storage.getAdContentRecord(contentName);
+      if (!record) {
+        return res.status(404).json({ error: "Ad content not found" });
+      }
+
+      // ?config= overrides the text config the ad was last edited with
+      const png = await renderSavedAd(record, typeof req.query.config === "string" ? req.query.config : undefined);
+      res.type("png").send(png);
+    } catch (error) {
+      console.error("Error rendering ad:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // List uploaded templates
+  app.get("/api/templates", async (req, res) => {
+    try {
+      const templates = await storage.listTemplates();
+      res.json(templates);
+    } catch (error) {
+      console.error("Error listing templates:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Upload a new template background
+  app.post("/api/templates", requirePermission("templates:manage"), async (req, res) => {
+    try {
+      const validation = templateUploadSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid template format",
+          details: validation.error.issues
+        });
+      }
+
+      const { image, ...metadata } = validation.data;
+      const { fileName, mimeType } = await saveDataUrl("templates", image);
+      const template = await storage.createTemplate({ ...metadata, fileName, mimeType });
+      res.status(201).json(template);
+    } catch (error) {
+      console.error("Error uploading template:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Replace the field definitions content on a template must provide
+  app.put("/api/templates/:id/fields", requirePermission("templates:manage"), async (req, res) => {
+    try {
+      const validation = fieldDefinitionsSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid field definitions",
+          details: validation.error.issues
+        });
+      }
+
+      const id = Number(req.params.id);
+      const template = Number.isInteger(id) ? await storage.updateTemplateFields(id, validation.data) : undefined;
+
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      res.json(template);
+    } catch (error) {
+      console.error("Error updating template fields:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Add or replace an extra output format, with an optional background of its own
+  app.post("/api/templates/:id/formats", requirePermission("templates:manage"), async (req, res) => {
+    try {
+      const validation = templateFormatUploadSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid format",
+          details: validation.error.issues
+        });
+      }
+
+      const id = Number(req.params.id);
+      const template = Number.isInteger(id) ? await storage.getTemplate(id) : undefined;
+
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      const { image, ...format } = validation.data;
+      if (isPrimaryFormat(format.key)) {
+        return res.status(400).json({ error: `"${PRIMARY_FORMAT.key}" is the template's own image` });
+      }
+
+      const existing = template.formats?.find((f) => f.key === format.key);
+      const upload = image ? await saveDataUrl("templates", image) : undefined;
+      if (upload && existing?.fileName) {
+        await deleteUpload("templates", existing.fileName);
+      }
+
+      const saved: TemplateFormat = {
+        ...format,
+        fileName: upload?.fileName ?? existing?.fileName,
+        mimeType: upload?.mimeType ?? existing?.mimeType,
+      };
+      const formats = [...(template.formats ?? []).filter((f) => f.key !== format.key), saved];
+
+      res.status(existing ? 200 : 201).json(await storage.updateTemplateFormats(id, formats));
+    } catch (error) {
+      console.error("Error saving template format:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Remove an extra output format and its background
+  app.delete("/api/templates/:id/formats/:key", requirePermission("templates:manage"), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const template = Number.isInteger(id) ? await storage.getTemplate(id) : undefined;
+      const format = template?.formats?.find((f) => f.key === req.params.key);
+
+      if (!template || !format) {
+        return res.status(404).json({ error: "Format not found" });
+      }
+
+      await storage.updateTemplateFormats(id, template.formats!.filter((f) => f.key !== format.key));
+      if (format.fileName) {
+        await deleteUpload("templates", format.fileName);
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting template format:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Serve an extra format's background image
+  app.get("/api/templates/:id/formats/:key/image", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const template = Number.isInteger(id) ? await storage.getTemplate(id) : undefined;
+      const format = template?.formats?.find((f) => f.key === req.params.key);
+
+      if (!format?.fileName || !format.mimeType) {
+        return res.status(404).json({ error: "Format image not found" });
+      }
+
+      res.type(format.mimeType).sendFile(uploadPath("templates", format.fileName));
+    } catch (error) {
+      console.error("Error fetching format image:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Serve a template's background image
+  app.get("/api/templates/:id/image", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const template = Number.isInteger(id) ? await storage.getTemplate(id) : undefined;
+
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      res.type(template.mimeType).sendFile(uploadPath("templates", template.fileName));
+    } catch (error) {
+      console.error("Error fetching template image:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Delete a template; text configs bound to it fall back to the built-in template
+  app.delete("/api/templates/:id", requirePermission("templates:manage"), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      // The template's own fonts go with it
+      const templateFonts = (await storage.listFonts()).filter((font) => font.templateId === id);
+      const template = Number.isInteger(id) ? await storage.deleteTemplate(id) : undefined;
+
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      await deleteUpload("templates", template.fileName);
+      for (const format of template.formats ?? []) {
+        if (format.fileName) await deleteUpload("templates", format.fileName);
+      }
+      for (const font of templateFonts) {
+        await deleteUpload("fonts", font.fileName);
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting template:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Uploaded fonts; the built-in Montserrat faces are in @shared/fonts
+  app.get("/api/fonts", async (req, res) => {
+    try {
+      const fonts = await storage.listFonts();
+      res.json(fonts);
+    } catch (error) {
+      console.error("Error listing fonts:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Upload an OTF, TTF or WOFF2 face, for one template or all of them
+  app.post("/api/fonts", requirePermission("templates:manage"), async (req, res) => {
+    try {
+      const validation = fontUploadSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid font format",
+          details: validation.error.issues
+        });
+      }
+
+      const { file, templateId = null, ...metadata } = validation.data;
+      if (templateId !== null && !(await storage.getTemplate(templateId))) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+
+      // Text configs refer to fonts by name, so each family, weight and style exists once
+      const name = fontName(metadata.family, metadata.weight, metadata.style);
+      const existing = [...BUILTIN_FONTS, ...(await storage.listFonts())];
+      if (existing.some((font) => font.name === name)) {
+        return res.status(409).json({ error: `Font "${name}" already exists` });
+      }
+
+      const upload = await saveFontDataUrl("fonts", file);
+      if (!upload) {
+        return res.status(400).json({ error: "Font must be an OTF, TTF or WOFF2 file" });
+      }
+
+      const font = await storage.createFont({ ...metadata, name, templateId, ...upload });
+      res.status(201).json(font);
+    } catch (error) {
+      console.error("Error uploading font:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Serve a font file for the browser to register with FontFace
+  app.get("/api/fonts/:id/file", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const font = Number.isInteger(id) ? await storage.getFont(id) : undefined;
+
+      if (!font) {
+        return res.status(404).json({ error: "Font not found" });
+      }
+
+      res.type(font.mimeType).sendFile(uploadPath("fonts", font.fileName));
+    } catch (error) {
+      console.error("Error fetching font file:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Delete a font; text configs still naming it draw in Montserrat
+  app.delete("/api/fonts/:id", requirePermission("templates:manage"), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const font = Number.isInteger(id) ? await storage.deleteFont(id) : undefined;
+
+      if (!font) {
+        return res.status(404).json({ error: "Font not found" });
+      }
+
+      await deleteUpload("fonts", font.fileName);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting font:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Images that layouts place as image layers, e.g. sponsor logos and QR codes
+  app.get("/api/assets", async (req, res) => {
+    try {
+      const assets = await storage.listAssets();
+      res.json(assets);
+    } catch (error) {
+      console.error("Error listing assets:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/assets", requirePermission("layout:edit"), async (req, res) => {
+    try {
+      const validation = assetUploadSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Invalid asset format",
+          details: validation.error.issues
+        });
+      }
+
+      const { image, name } = validation.data;
+      const { fileName, mimeType } = await saveDataUrl("assets", image);
+      const asset = await storage.createAsset({ name, fileName, mimeType });
+      res.status(201).json(asset);
+    } catch (error) {
+      console.error("Error uploading asset:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/assets/:id/file", async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const asset = Number.isInteger(id) ? await storage.getAsset(id) : undefined;
+
+      if (!asset) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+
+      res.type(asset.mimeType).sendFile(uploadPath("assets", asset.fileName));
+    } catch (error) {
+      console.error("Error fetching asset file:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Delete an asset; image layers still using it draw nothing
+  app.delete("/api/assets/:id", requirePermission("layout:edit"), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const asset = Number.isInteger(id) ? await storage.deleteAsset(id) : undefined;
+
+      if (!asset) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+
+      await deleteUpload("assets", asset.fileName);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting asset:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
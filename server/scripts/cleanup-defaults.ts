@@ -0,0 +1,65 @@
+import { isDeepStrictEqual } from "util";
+import { storage } from "../storage";
+import { type AdContent, type SelectAdContent, type SelectTextPositionConfig } from "@shared/schema";
+import { DEFAULT_FIELDS, DEFAULT_TEXT_CONFIG } from "@shared/defaults";
+import { migrateAdContent, migrateTextConfig } from "@shared/migrate";
+
+// Usage: npm run db:cleanup-defaults [-- --dry-run]
+// Deletes the rows GET requests used to create for unknown names: still unbound,
+// still holding the defaults, and never saved again since.
+
+// The values those rows were created with. Today's defaults differ: the race day is now a date.
+const CREATED_ON_READ_VALUES: AdContent = migrateAdContent({
+  raceName: "Emerald Stakes",
+  prizeAmount: "50,000",
+  projectedPool: "125,000",
+  day: "SATURDAY",
+  numberOfRaces: "8",
+}, DEFAULT_FIELDS);
+
+const neverUpdated = (record: { createdAt: Date; updatedAt: Date }) =>
+  record.createdAt.getTime() === record.updatedAt.getTime();
+
+async function isUneditedConfig(record: SelectTextPositionConfig): Promise<boolean> {
+  if (!neverUpdated(record) || record.templateId !== null || record.format !== null) return false;
+  if (!isDeepStrictEqual(migrateTextConfig(record.config), DEFAULT_TEXT_CONFIG)) return false;
+
+  // A save by a signed-in user means someone chose this layout, even if it matches the defaults
+  const revisions = await storage.listTextConfigRevisions(record.name);
+  return revisions.every((revision) => revision.authorId === null);
+}
+
+function isUneditedContent(record: SelectAdContent): boolean {
+  return neverUpdated(record)
+    && record.templateId === null
+    && record.textConfigName === null
+    && isDeepStrictEqual(migrateAdContent(record.values, DEFAULT_FIELDS), CREATED_ON_READ_VALUES);
+}
+
+async function main() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  const configs: SelectTextPositionConfig[] = [];
+  for (const record of await storage.listTextPositionConfigs()) {
+    if (await isUneditedConfig(record)) configs.push(record);
+  }
+  const contents = (await storage.listAdContents()).filter(isUneditedContent);
+
+  for (const record of configs) {
+    console.log(`${dryRun ? "Would delete" : "Deleting"} text config "${record.name}"`);
+    if (!dryRun) await storage.deleteTextPositionConfig(record.name);
+  }
+  for (const record of contents) {
+    console.log(`${dryRun ? "Would delete" : "Deleting"} ad content "${record.name}"`);
+    if (!dryRun) await storage.deleteAdContent(record.name);
+  }
+
+  console.log(`${configs.length} text config(s) and ${contents.length} ad content record(s) ${dryRun ? "found" : "deleted"}`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
@@ -0,0 +1,137 @@
+import { eq, sql } from "drizzle-orm";
+import { getDb, getPool } from "../db";
+import { adContents, templates, textPositionConfigs } from "@shared/schema";
+import { migrateAdContent, migrateFieldDefinitions, migrateTextConfig } from "@shared/migrate";
+import { getTemplateFields } from "@shared/fields";
+
+const db = getDb();
+
+// Data migrations for changes `drizzle-kit push` can't make without losing data.
+// Run `npm run db:migrate` before `npm run db:push`; every step is safe to re-run.
+// Push hasn't added the newer tables and columns yet, so steps only select columns
+// they have checked for.
+
+async function hasColumn(table: string, column: string): Promise<boolean> {
+  const { rows } = await db.execute(sql`
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = ${table} AND column_name = ${column}
+  `);
+  return rows.length > 0;
+}
+
+// Moves the five fixed ad content columns into the per-field "values" JSON
+async function migrateAdContentValues() {
+  if (!(await hasColumn("ad_contents", "race_name"))) {
+    console.log("Ad contents already use field values");
+    return;
+  }
+
+  await db.execute(sql`ALTER TABLE ad_contents ADD COLUMN IF NOT EXISTS "values" json`);
+  await db.execute(sql`
+    UPDATE ad_contents SET "values" = json_build_object(
+      'raceName', race_name,
+      'prizeAmount', prize_amount,
+      'projectedPool', projected_pool,
+      'day', day,
+      'numberOfRaces', number_of_races
+    )
+    WHERE "values" IS NULL
+  `);
+  await db.execute(sql`ALTER TABLE ad_contents ALTER COLUMN "values" SET NOT NULL`);
+  await db.execute(sql`
+    ALTER TABLE ad_contents
+      DROP COLUMN race_name,
+      DROP COLUMN prize_amount,
+      DROP COLUMN projected_pool,
+      DROP COLUMN day,
+      DROP COLUMN number_of_races
+  `);
+  console.log("Moved ad content columns into field values");
+}
+
+// Rewrites every stored text config in the current schema shape.
+// Reads already migrate on the fly; this makes the stored JSON match.
+async function migrateTextConfigs() {
+  const records = await db
+    .select({ id: textPositionConfigs.id, config: textPositionConfigs.config })
+    .from(textPositionConfigs);
+  let updated = 0;
+
+  for (const record of records) {
+    const migrated = migrateTextConfig(record.config);
+
+    if (JSON.stringify(migrated) !== JSON.stringify(record.config)) {
+      await db
+        .update(textPositionConfigs)
+        .set({ config: migrated })
+        .where(eq(textPositionConfigs.id, record.id));
+      updated++;
+    }
+  }
+
+  console.log(`Migrated ${updated} of ${records.length} text configs`);
+}
+
+// Turns "$"-prefixed prize and pool text fields into currency fields and the weekday
+// name into a race date, and gives the race count its 1-20 range
+async function migrateTemplateFields() {
+  // Databases from before templates get the table, empty, from push
+  if (!(await hasColumn("templates", "fields"))) {
+    console.log("No templates to migrate");
+    return;
+  }
+
+  const records = await db.select({ id: templates.id, fields: templates.fields }).from(templates);
+  let updated = 0;
+
+  for (const record of records) {
+    if (!record.fields) continue;
+    const migrated = migrateFieldDefinitions(record.fields);
+
+    if (JSON.stringify(migrated) !== JSON.stringify(record.fields)) {
+      await db.update(templates).set({ fields: migrated }).where(eq(templates.id, record.id));
+      updated++;
+    }
+  }
+
+  console.log(`Migrated fields of ${updated} of ${records.length} templates`);
+}
+
+// Stores prize and pool text such as "50,000" as amounts and counts as numbers. Rendering
+// already reads the text as one; this lets the form and imports treat it as one too.
+async function migrateTypedValues() {
+  // Before templates, every ad used the default fields
+  const templateRecords = await hasColumn("templates", "fields")
+    ? await db.select({ id: templates.id, fields: templates.fields }).from(templates)
+    : [];
+  const records = await hasColumn("ad_contents", "template_id")
+    ? await db.select({ id: adContents.id, values: adContents.values, templateId: adContents.templateId }).from(adContents)
+    : (await db.select({ id: adContents.id, values: adContents.values }).from(adContents)).map((record) => ({ ...record, templateId: null }));
+  let updated = 0;
+
+  for (const record of records) {
+    const template = templateRecords.find((candidate) => candidate.id === record.templateId);
+    const migrated = migrateAdContent(record.values, getTemplateFields(template));
+
+    if (JSON.stringify(migrated) !== JSON.stringify(record.values)) {
+      await db.update(adContents).set({ values: migrated }).where(eq(adContents.id, record.id));
+      updated++;
+    }
+  }
+
+  console.log(`Migrated values in ${updated} of ${records.length} ad contents`);
+}
+
+async function main() {
+  await migrateAdContentValues();
+  await migrateTextConfigs();
+  await migrateTemplateFields();
+  await migrateTypedValues();
+}
+
+main()
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => getPool().end());
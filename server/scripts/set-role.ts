@@ -0,0 +1,27 @@
+import { storage } from "../storage";
+import { userRoleSchema } from "@shared/schema";
+
+// Usage: npm run users:set-role -- <username> <designer|marketer|reviewer>
+async function main() {
+  const [username, roleArg] = process.argv.slice(2);
+  const role = userRoleSchema.safeParse(roleArg);
+
+  if (!username || !role.success) {
+    throw new Error(`Usage: npm run users:set-role -- <username> <${userRoleSchema.options.join("|")}>`);
+  }
+
+  const user = await storage.getUserByUsername(username);
+  if (!user) {
+    throw new Error(`No user named "${username}"`);
+  }
+
+  await storage.updateUserRole(user.id, role.data);
+  console.log(`${username} is now a ${role.data}`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
@@ -0,0 +1,440 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import session from "express-session";
+import { DatabaseStorage, type IStorage } from "./storage";
+import { MemStorage } from "./mem-storage";
+import { getPool } from "./db";
+import { DEFAULT_AD_CONTENT, DEFAULT_TEXT_CONFIG } from "@shared/defaults";
+import { getFieldPosition } from "@shared/ad-renderer";
+import { type FieldDefinition, type ImageLayerConfig, type TemplateFormat, type TextConfig } from "@shared/schema";
+
+// The IStorage contract every driver must honour. Names are unique per run so the
+// suite can share a database with real data.
+
+const unique = (prefix: string) => `${prefix}-${randomUUID()}`;
+
+const MOVED_CONFIG: TextConfig = {
+  ...DEFAULT_TEXT_CONFIG,
+  raceName: { ...getFieldPosition(DEFAULT_TEXT_CONFIG, "raceName"), left: 321 },
+};
+
+// A layout saved before layers had kinds: the text layer lacks one, the image layer doesn't
+const { kind: _kind, ...LEGACY_RACE_NAME } = getFieldPosition(DEFAULT_TEXT_CONFIG, "raceName");
+const LOGO_LAYER: ImageLayerConfig = { kind: "image", assetId: 1, x: -20, y: 40, width: 300, height: 120, fit: "contain", zIndex: 2 };
+const LEGACY_CONFIG = { raceName: LEGACY_RACE_NAME, "image-1": LOGO_LAYER };
+const UPGRADED_CONFIG: TextConfig = { raceName: DEFAULT_TEXT_CONFIG.raceName, "image-1": LOGO_LAYER };
+
+const templateInput = (name = unique("template")) => ({ name, fileName: `${name}.png`, mimeType: "image/png" });
+
+function storageContract(create: () => IStorage) {
+  it("creates users and finds them by id and username", async () => {
+    const storage = create();
+    const username = unique("user");
+    const user = await storage.createUser({ username, password: "hash.salt" });
+
+    assert.equal(user.username, username);
+    assert.deepEqual(await storage.getUser(user.id), user);
+    assert.deepEqual(await storage.getUserByUsername(username), user);
+    assert.equal(await storage.getUser(randomUUID()), undefined);
+    assert.equal(await storage.getUserByUsername(unique("missing")), undefined);
+  });
+
+  it("defaults new users to marketers and changes roles", async () => {
+    const storage = create();
+    const before = await storage.countUsers();
+    const user = await storage.createUser({ username: unique("user"), password: "hash.salt" });
+    const designer = await storage.createUser({ username: unique("user"), password: "hash.salt", role: "designer" });
+
+    assert.equal(user.role, "marketer");
+    assert.equal(designer.role, "designer");
+    assert.equal(await storage.countUsers(), before + 2);
+    assert.equal((await storage.updateUserRole(user.id, "designer"))?.role, "designer");
+    assert.equal((await storage.getUser(user.id))?.role, "designer");
+    assert.equal(await storage.updateUserRole(randomUUID(), "designer"), undefined);
+  });
+
+  it("gives the first-user role to one of several concurrent first sign-ups", async () => {
+    const storage = create();
+    const empty = (await storage.countUsers()) === 0;
+    const created = await Promise.all([1, 2, 3].map(() => storage.createUser({ username: unique("user"), password: "hash.salt" }, "designer")));
+
+    assert.equal(created.filter((user) => user.role === "designer").length, empty ? 1 : 0);
+    assert.equal(created.filter((user) => user.role === "marketer").length, empty ? 2 : 3);
+  });
+
+  it("rejects a duplicate username", async () => {
+    const storage = create();
+    const username = unique("user");
+    await storage.createUser({ username, password: "hash.salt" });
+
+    await assert.rejects(storage.createUser({ username, password: "other.salt" }));
+  });
+
+  it("reads unknown names without creating records", async () => {
+    const storage = create();
+    const configName = unique("config");
+    const contentName = unique("content");
+
+    assert.equal(await storage.getTextPositionConfig(configName), undefined);
+    assert.equal(await storage.getTextPositionConfigRecord(configName), undefined);
+    assert.equal(await storage.getAdContent(contentName), undefined);
+    assert.equal(await storage.getAdContentRecord(contentName), undefined);
+  });
+
+  it("creates an unbound text config on first save", async () => {
+    const storage = create();
+    const name = unique("config");
+    await storage.saveTextPositionConfig(name, DEFAULT_TEXT_CONFIG);
+
+    const record = await storage.getTextPositionConfigRecord(name);
+    assert.deepEqual(await storage.getTextPositionConfig(name), DEFAULT_TEXT_CONFIG);
+    assert.equal(record?.templateId, null);
+    assert.equal(record?.format, null);
+  });
+
+  it("keeps a text config's binding unless a new one is given", async () => {
+    const storage = create();
+    const name = unique("config");
+    const template = await storage.createTemplate(templateInput());
+
+    const created = await storage.saveTextPositionConfig(name, DEFAULT_TEXT_CONFIG, { templateId: template.id, format: "square" });
+    assert.equal(created.templateId, template.id);
+    assert.equal(created.format, "square");
+
+    const updated = await storage.saveTextPositionConfig(name, MOVED_CONFIG);
+    assert.equal(updated.id, created.id);
+    assert.equal(updated.templateId, template.id);
+    assert.equal(updated.format, "square");
+    assert.ok(updated.updatedAt >= created.updatedAt);
+    assert.deepEqual(await storage.getTextPositionConfig(name), MOVED_CONFIG);
+
+    const rebound = await storage.saveTextPositionConfig(name, MOVED_CONFIG, { templateId: null, format: null });
+    assert.equal(rebound.templateId, null);
+    assert.equal(rebound.format, null);
+
+    await storage.deleteTemplate(template.id);
+  });
+
+  it("records every text config save as a revision with its author and changes", async () => {
+    const storage = create();
+    const name = unique("config");
+    const author = await storage.createUser({ username: unique("user"), password: "hash.salt", role: "designer" });
+
+    await storage.saveTextPositionConfig(name, DEFAULT_TEXT_CONFIG);
+    await storage.saveTextPositionConfig(name, MOVED_CONFIG, undefined, { authorId: author.id });
+
+    const [latest, first] = await storage.listTextConfigRevisions(name);
+    assert.deepEqual(latest.config, MOVED_CONFIG);
+    assert.equal(latest.authorId, author.id);
+    assert.equal(latest.authorName, author.username);
+    assert.deepEqual(latest.changes, [{ field: "raceName", property: "left", from: 100, to: 321 }]);
+    assert.equal(first.authorName, null);
+    assert.equal(first.changes.length, Object.keys(DEFAULT_TEXT_CONFIG).length);
+    assert.deepEqual(await storage.getTextConfigRevision(first.id), first);
+    assert.equal(await storage.getTextConfigRevision(-1), undefined);
+
+    const restored = await storage.saveTextPositionConfig(name, first.config, undefined, { authorId: author.id, restoredFromId: first.id });
+    assert.deepEqual(restored.config, DEFAULT_TEXT_CONFIG);
+    const revisions = await storage.listTextConfigRevisions(name);
+    assert.equal(revisions.length, 3);
+    assert.equal(revisions[0].restoredFromId, first.id);
+  });
+
+  it("lists saved text configs", async () => {
+    const storage = create();
+    const name = unique("config");
+    await storage.saveTextPositionConfig(name, MOVED_CONFIG);
+
+    const listed = (await storage.listTextPositionConfigs()).find((record) => record.name === name);
+    assert.deepEqual(listed?.config, MOVED_CONFIG);
+  });
+
+  it("deletes a text config with its revisions", async () => {
+    const storage = create();
+    const name = unique("config");
+    const saved = await storage.saveTextPositionConfig(name, DEFAULT_TEXT_CONFIG);
+    await storage.saveTextPositionConfig(name, MOVED_CONFIG);
+
+    assert.equal((await storage.deleteTextPositionConfig(name))?.id, saved.id);
+    assert.equal(await storage.getTextPositionConfigRecord(name), undefined);
+    assert.deepEqual(await storage.listTextConfigRevisions(name), []);
+    assert.equal(await storage.deleteTextPositionConfig(name), undefined);
+  });
+
+  it("creates ad content on first save and saves changes", async () => {
+    const storage = create();
+    const name = unique("content");
+
+    const created = await storage.saveAdContent(name, DEFAULT_AD_CONTENT);
+    assert.deepEqual(await storage.getAdContent(name), DEFAULT_AD_CONTENT);
+    assert.equal(created.createdAt.getTime(), created.updatedAt.getTime());
+
+    const values = { ...DEFAULT_AD_CONTENT, raceName: "Summer Cup" };
+    const saved = await storage.saveAdContent(name, values);
+    assert.equal(saved.name, name);
+    assert.deepEqual(saved.values, values);
+    assert.deepEqual(await storage.getAdContent(name), values);
+  });
+
+  it("remembers an ad's template binding unless a new one is given", async () => {
+    const storage = create();
+    const name = unique("content");
+    const template = await storage.createTemplate(templateInput());
+
+    const created = await storage.saveAdContent(name, DEFAULT_AD_CONTENT, { templateId: template.id, textConfigName: `template-${template.id}` });
+    assert.equal(created.templateId, template.id);
+    assert.equal(created.textConfigName, `template-${template.id}`);
+
+    const updated = await storage.saveAdContent(name, { ...DEFAULT_AD_CONTENT, day: "FRIDAY" });
+    assert.equal(updated.templateId, template.id);
+    assert.equal(updated.textConfigName, `template-${template.id}`);
+
+    await storage.deleteTemplate(template.id);
+    assert.equal((await storage.getAdContentRecord(name))?.templateId, null);
+  });
+
+  it("lists, renames, duplicates and deletes ads", async () => {
+    const storage = create();
+    const prefix = unique("content");
+    const values = { ...DEFAULT_AD_CONTENT, raceName: "Summer Cup" };
+    await storage.saveAdContent(`${prefix}-b`, values, { templateId: null, textConfigName: "default" });
+
+    const renamed = await storage.renameAdContent(`${prefix}-b`, `${prefix}-c`);
+    assert.equal(renamed?.name, `${prefix}-c`);
+    assert.equal(await storage.getAdContentRecord(`${prefix}-b`), undefined);
+    assert.equal(await storage.renameAdContent(unique("missing"), unique("content")), undefined);
+
+    const copy = await storage.duplicateAdContent(`${prefix}-c`, `${prefix}-a`);
+    assert.deepEqual(copy?.values, values);
+    assert.equal(copy?.textConfigName, "default");
+    assert.notEqual(copy?.id, renamed?.id);
+    assert.equal(await storage.duplicateAdContent(unique("missing"), unique("content")), undefined);
+
+    const listed = (await storage.listAdContents()).filter((record) => record.name.startsWith(prefix));
+    assert.deepEqual(listed.map((record) => record.name), [`${prefix}-a`, `${prefix}-c`]);
+
+    assert.equal((await storage.deleteAdContent(`${prefix}-a`))?.id, copy?.id);
+    assert.equal(await storage.getAdContentRecord(`${prefix}-a`), undefined);
+    assert.equal(await storage.deleteAdContent(`${prefix}-a`), undefined);
+  });
+
+  it("moves ads through review and keeps their review trail", async () => {
+    const storage = create();
+    const name = unique("content");
+    const reviewer = await storage.createUser({ username: unique("user"), password: "hash.salt", role: "reviewer" });
+    const created = await storage.saveAdContent(name, DEFAULT_AD_CONTENT);
+    assert.equal(created.status, "draft");
+
+    await storage.reviewAdContent(name, { action: "submit", status: "in_review", authorId: null });
+    const approved = await storage.reviewAdContent(name, { action: "approve", status: "approved", comment: "Figures checked", authorId: reviewer.id });
+    assert.equal(approved?.status, "approved");
+    assert.equal((await storage.saveAdContent(name, DEFAULT_AD_CONTENT)).status, "approved");
+    assert.equal(await storage.reviewAdContent(unique("missing"), { action: "submit", status: "in_review", authorId: null }), undefined);
+
+    const [latest, first] = await storage.listAdReviews(name);
+    assert.equal(latest.action, "approve");
+    assert.equal(latest.fromStatus, "in_review");
+    assert.equal(latest.toStatus, "approved");
+    assert.equal(latest.comment, "Figures checked");
+    assert.equal(latest.authorName, reviewer.username);
+    assert.equal(first.comment, null);
+    assert.equal(first.authorName, null);
+
+    // Copies start over as drafts; deleting an ad takes its trail with it
+    const copy = await storage.duplicateAdContent(name, unique("content"));
+    assert.equal(copy?.status, "draft");
+    assert.deepEqual(await storage.listAdReviews(copy!.name), []);
+    await storage.deleteAdContent(name);
+    assert.deepEqual(await storage.listAdReviews(name), []);
+  });
+
+  it("refreshes values from a pool source and keeps an audit trail", async () => {
+    const storage = create();
+    const name = unique("content");
+    await storage.saveAdContent(name, DEFAULT_AD_CONTENT);
+
+    assert.equal((await storage.setAdPoolSource(name, "RAND-20261024"))?.poolSourceKey, "RAND-20261024");
+    assert.equal(await storage.setAdPoolSource(unique("missing"), "RAND-20261024"), undefined);
+
+    const pool = { amount: 180000, currency: "AUD" };
+    const refreshed = await storage.refreshAdContentValue(name, "projectedPool", pool, "file");
+    assert.deepEqual(refreshed?.values, { ...DEFAULT_AD_CONTENT, projectedPool: pool });
+    assert.equal(refreshed?.status, "draft");
+    assert.deepEqual(await storage.listAdReviews(name), []);
+    assert.equal(await storage.refreshAdContentValue(unique("missing"), "projectedPool", pool, "file"), undefined);
+
+    // A new figure on a signed-off ad needs approving again
+    await storage.reviewAdContent(name, { action: "approve", status: "approved", authorId: null });
+    const reopened = await storage.refreshAdContentValue(name, "projectedPool", { amount: 200000, currency: "AUD" }, "file");
+    assert.equal(reopened?.status, "in_review");
+    const [reopen] = await storage.listAdReviews(name);
+    assert.equal(reopen.action, "reopen");
+    assert.equal(reopen.fromStatus, "approved");
+    assert.equal(reopen.toStatus, "in_review");
+
+    const [, change] = await storage.listAdValueChanges(name);
+    assert.equal(change.field, "projectedPool");
+    assert.deepEqual(change.fromValue, DEFAULT_AD_CONTENT.projectedPool);
+    assert.deepEqual(change.toValue, pool);
+    assert.equal(change.source, "file");
+
+    // Copies don't refresh until given a source; deleting an ad takes its trail with it
+    const copy = await storage.duplicateAdContent(name, unique("content"));
+    assert.equal(copy?.poolSourceKey, null);
+    assert.deepEqual(await storage.listAdValueChanges(copy!.name), []);
+    await storage.deleteAdContent(name);
+    assert.deepEqual(await storage.listAdValueChanges(name), []);
+  });
+
+  it("returns copies callers cannot use to change stored data", async () => {
+    const storage = create();
+    const name = unique("content");
+    await storage.saveAdContent(name, { ...DEFAULT_AD_CONTENT });
+
+    const content = await storage.getAdContent(name);
+    content!.raceName = "Changed";
+    assert.deepEqual(await storage.getAdContent(name), DEFAULT_AD_CONTENT);
+  });
+
+  it("creates templates with empty metadata and lists them by name", async () => {
+    const storage = create();
+    const prefix = unique("template");
+    const second = await storage.createTemplate(templateInput(`${prefix}-b`));
+    const first = await storage.createTemplate({ ...templateInput(`${prefix}-a`), track: "Addington" });
+
+    assert.equal(second.track, null);
+    assert.equal(second.season, null);
+    assert.equal(second.sponsor, null);
+    assert.equal(second.fields, null);
+    assert.equal(second.formats, null);
+    assert.equal(first.track, "Addington");
+    assert.deepEqual(await storage.getTemplate(first.id), first);
+
+    const listed = (await storage.listTemplates()).filter((template) => template.name.startsWith(prefix));
+    assert.deepEqual(listed.map((template) => template.id), [first.id, second.id]);
+
+    await storage.deleteTemplate(first.id);
+    await storage.deleteTemplate(second.id);
+  });
+
+  it("updates a template's fields and formats", async () => {
+    const storage = create();
+    const template = await storage.createTemplate(templateInput());
+    const fields: FieldDefinition[] = [{ key: "title", label: "Title", type: "text", default: "" }];
+    const formats: TemplateFormat[] = [{ key: "square", label: "Square", width: 1080, height: 1080 }];
+
+    assert.deepEqual((await storage.updateTemplateFields(template.id, fields))?.fields, fields);
+    assert.deepEqual((await storage.updateTemplateFormats(template.id, formats))?.formats, formats);
+    assert.deepEqual((await storage.getTemplate(template.id))?.fields, fields);
+
+    await storage.deleteTemplate(template.id);
+    assert.equal(await storage.updateTemplateFields(template.id, fields), undefined);
+    assert.equal(await storage.updateTemplateFormats(template.id, formats), undefined);
+  });
+
+  it("unbinds text configs when their template is deleted", async () => {
+    const storage = create();
+    const name = unique("config");
+    const template = await storage.createTemplate(templateInput());
+    await storage.saveTextPositionConfig(name, DEFAULT_TEXT_CONFIG, { templateId: template.id, format: null });
+
+    assert.equal((await storage.deleteTemplate(template.id))?.id, template.id);
+    assert.equal(await storage.getTemplate(template.id), undefined);
+    assert.equal((await storage.getTextPositionConfigRecord(name))?.templateId, null);
+    assert.equal(await storage.deleteTemplate(template.id), undefined);
+  });
+
+  it("creates fonts, lists them by name and deletes them with their template", async () => {
+    const storage = create();
+    const family = unique("Family");
+    const template = await storage.createTemplate(templateInput());
+    const fontInput = (weight: number, templateId: number | null) => ({
+      name: `${family}-${weight}`, family, weight, style: "normal" as const, fileName: `${family}-${weight}.otf`, mimeType: "font/otf", templateId,
+    });
+
+    const black = await storage.createFont({ ...fontInput(900, null), license: "Sponsor use only" });
+    const bold = await storage.createFont(fontInput(700, template.id));
+
+    assert.equal(bold.license, null);
+    assert.equal(black.templateId, null);
+    assert.deepEqual(await storage.getFont(black.id), black);
+    const listed = (await storage.listFonts()).filter((font) => font.family === family);
+    assert.deepEqual(listed.map((font) => font.id), [bold.id, black.id]);
+
+    await storage.deleteTemplate(template.id);
+    assert.equal(await storage.getFont(bold.id), undefined);
+    assert.equal((await storage.deleteFont(black.id))?.id, black.id);
+    assert.equal(await storage.deleteFont(black.id), undefined);
+  });
+
+  it("creates assets, lists them by name and deletes them", async () => {
+    const storage = create();
+    const name = unique("asset");
+    const qr = await storage.createAsset({ name: `${name}-qr`, fileName: `${name}-qr.png`, mimeType: "image/png" });
+    const logo = await storage.createAsset({ name: `${name}-logo`, fileName: `${name}-logo.webp`, mimeType: "image/webp" });
+
+    assert.deepEqual(await storage.getAsset(qr.id), qr);
+    const listed = (await storage.listAssets()).filter((asset) => asset.name.startsWith(name));
+    assert.deepEqual(listed.map((asset) => asset.id), [logo.id, qr.id]);
+
+    assert.equal((await storage.deleteAsset(qr.id))?.id, qr.id);
+    assert.equal(await storage.getAsset(qr.id), undefined);
+    assert.equal(await storage.deleteAsset(qr.id), undefined);
+  });
+}
+
+describe("MemStorage", () => {
+  storageContract(() => new MemStorage(new session.MemoryStore()));
+});
+
+describe("MemStorage with a file", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mem-storage-"));
+  const file = path.join(dir, "storage.json");
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  storageContract(() => new MemStorage(new session.MemoryStore(), file));
+
+  it("reloads everything it saved", async () => {
+    const storage = new MemStorage(new session.MemoryStore(), file);
+    const configName = unique("config");
+    const template = await storage.createTemplate(templateInput());
+    await storage.saveTextPositionConfig(configName, MOVED_CONFIG, { templateId: template.id, format: null });
+
+    const reloaded = new MemStorage(new session.MemoryStore(), file);
+    assert.deepEqual(await reloaded.getTemplate(template.id), template);
+    assert.deepEqual(await reloaded.getTextPositionConfigRecord(configName), await storage.getTextPositionConfigRecord(configName));
+
+    // Ids carry on from where the file left off
+    const next = await reloaded.createTemplate(templateInput());
+    assert.ok(next.id > template.id);
+  });
+
+  it("gives text layers in a file written before layers had kinds their kind", async () => {
+    const legacyFile = path.join(dir, "legacy.json");
+    const savedAt = new Date().toISOString();
+    fs.writeFileSync(legacyFile, JSON.stringify({
+      textPositionConfigs: [{ id: 1, name: "legacy", config: LEGACY_CONFIG, createdAt: savedAt, updatedAt: savedAt }],
+      nextIds: { textPositionConfigs: 2 },
+    }));
+
+    const storage = new MemStorage(new session.MemoryStore(), legacyFile);
+    assert.deepEqual(await storage.getTextPositionConfig("legacy"), UPGRADED_CONFIG);
+  });
+});
+
+describe("DatabaseStorage", { skip: !process.env.DATABASE_URL && "DATABASE_URL is not set" }, () => {
+  after(() => getPool().end());
+
+  storageContract(() => new DatabaseStorage());
+
+  it("gives text layers in rows saved before layers had kinds their kind", async () => {
+    const name = unique("config");
+    await getPool().query("INSERT INTO text_position_configs (name, config) VALUES ($1, $2)", [name, JSON.stringify(LEGACY_CONFIG)]);
+
+    assert.deepEqual(await new DatabaseStorage().getTextPositionConfig(name), UPGRADED_CONFIG);
+  });
+});
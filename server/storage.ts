@@ -1,114 +1,261 @@
-import { type User, type InsertUser, type TextConfig, type SelectTextPositionConfig, type InsertTextPositionConfig, type AdContent, type InsertAdContent, type SelectAdContent } from "@shared/schema";
-import { db } from "./db";
-import { users, textPositionConfigs, adContents } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { type User, type InsertUser, type UserRole, type TextConfig, type SelectTextPositionConfig, type TextConfigRevision, type InsertTextPositionConfig, type AdContent, type InsertAdContent, type SelectAdContent, type AdReview, type AdReviewAction, type AdStatus, type AdValueChange, type FieldValue, type Template, type InsertTemplate, type FieldDefinition, type TemplateFormat, type SelectFont, type InsertFont, type Asset, type InsertAsset } from "@shared/schema";
+import { migrateTextConfig } from "@shared/migrate";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { getDb, getPool } from "./db";
+import { MemStorage } from "./mem-storage";
+import { users, textPositionConfigs, textConfigRevisions, adContents, adReviews, adValueChanges, templates, fonts, assets } from "@shared/schema";
+import { diffTextConfigs } from "@shared/revisions";
+import { statusAfterEdit } from "@shared/workflow";
+import { count, desc, eq, getTableColumns, sql } from "drizzle-orm";
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
 
 // modify the interface with any CRUD methods
 // you might need
 
+// Which template and output format a text config lays out
+export interface TextConfigBinding {
+  templateId: number | null;
+  format: string | null;
+}
+
+// Which template and text config an ad is edited with
+export interface AdContentBinding {
+  templateId: number | null;
+  textConfigName: string | null;
+}
+
+// Who made a text config save, recorded on the revision it creates
+export interface TextConfigRevisionMeta {
+  authorId: string | null;
+  restoredFromId?: number | null;
+}
+
+// One step through the approval workflow: the status it leaves the ad in, and who took it
+export interface AdReviewStep {
+  action: AdReviewAction;
+  status: AdStatus;
+  comment?: string | null;
+  authorId: string | null;
+}
+
 export interface IStorage {
+  sessionStore: session.Store;
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  // firstUserRole replaces the role when no users exist yet, checked atomically with the insert
+  createUser(user: InsertUser & { role?: UserRole }, firstUserRole?: UserRole): Promise<User>;
+  countUsers(): Promise<number>;
+  updateUserRole(id: string, role: UserRole): Promise<User | undefined>;
   getTextPositionConfig(name: string): Promise<TextConfig | undefined>;
-  saveTextPositionConfig(name: string, config: TextConfig): Promise<SelectTextPositionConfig>;
+  getTextPositionConfigRecord(name: string): Promise<SelectTextPositionConfig | undefined>;
+  saveTextPositionConfig(name: string, config: TextConfig, binding?: TextConfigBinding, revision?: TextConfigRevisionMeta): Promise<SelectTextPositionConfig>;
   listTextPositionConfigs(): Promise<SelectTextPositionConfig[]>;
+  deleteTextPositionConfig(name: string): Promise<SelectTextPositionConfig | undefined>;
+  listTextConfigRevisions(name: string): Promise<TextConfigRevision[]>;
+  getTextConfigRevision(id: number): Promise<TextConfigRevision | undefined>;
   getAdContent(name: string): Promise<AdContent | undefined>;
-  saveAdContent(name: string, content: AdContent): Promise<SelectAdContent>;
+  getAdContentRecord(name: string): Promise<SelectAdContent | undefined>;
+  saveAdContent(name: string, content: AdContent, binding?: AdContentBinding): Promise<SelectAdContent>;
+  listAdContents(): Promise<SelectAdContent[]>;
+  renameAdContent(name: string, newName: string): Promise<SelectAdContent | undefined>;
+  duplicateAdContent(name: string, newName: string): Promise<SelectAdContent | undefined>;
+  deleteAdContent(name: string): Promise<SelectAdContent | undefined>;
+  reviewAdContent(name: string, step: AdReviewStep): Promise<SelectAdContent | undefined>;
+  listAdReviews(name: string): Promise<AdReview[]>;
+  setAdPoolSource(name: string, sourceKey: string | null): Promise<SelectAdContent | undefined>;
+  refreshAdContentValue(name: string, field: string, value: FieldValue, source: string): Promise<SelectAdContent | undefined>;
+  listAdValueChanges(name: string): Promise<AdValueChange[]>;
+  listTemplates(): Promise<Template[]>;
+  getTemplate(id: number): Promise<Template | undefined>;
+  createTemplate(template: InsertTemplate): Promise<Template>;
+  updateTemplateFields(id: number, fields: FieldDefinition[]): Promise<Template | undefined>;
+  updateTemplateFormats(id: number, formats: TemplateFormat[]): Promise<Template | undefined>;
+  deleteTemplate(id: number): Promise<Template | undefined>;
+  listFonts(): Promise<SelectFont[]>;
+  getFont(id: number): Promise<SelectFont | undefined>;
+  createFont(font: InsertFont): Promise<SelectFont>;
+  deleteFont(id: number): Promise<SelectFont | undefined>;
+  listAssets(): Promise<Asset[]>;
+  getAsset(id: number): Promise<Asset | undefined>;
+  createAsset(asset: InsertAsset): Promise<Asset>;
+  deleteAsset(id: number): Promise<Asset | undefined>;
 }
 
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+  private db = getDb();
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ pool: getPool(), createTableIfMissing: true });
+  }
+
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user || undefined;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user || undefined;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
-      .insert(users)
-      .values(insertUser)
+  async createUser(insertUser: InsertUser & { role?: UserRole }, firstUserRole?: UserRole): Promise<User> {
+    return await this.db.transaction(async (tx) => {
+      let values = insertUser;
+      if (firstUserRole) {
+        // Holds off concurrent sign-ups until this one commits, so only one sees an empty table
+        await tx.execute(sql`lock table ${users} in share row exclusive mode`);
+        const [{ value }] = await tx.select({ value: count() }).from(users);
+        if (value === 0) values = { ...insertUser, role: firstUserRole };
+      }
+
+      const [user] = await tx
+        .insert(users)
+        .values(values)
+        .returning();
+      return user;
+    });
+  }
+
+  async countUsers(): Promise<number> {
+    const [{ value }] = await this.db.select({ value: count() }).from(users);
+    return value;
+  }
+
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ role })
+      .where(eq(users.id, id))
       .returning();
-    return user;
+    return user || undefined;
   }
 
   async getTextPositionConfig(name: string): Promise<TextConfig | undefined> {
-    const [record] = await db.select().from(textPositionConfigs).where(eq(textPositionConfigs.name, name));
-    
-    if (!record) {
-      // Return default config if none exists
-      return await this.createDefaultConfig(name);
-    }
-    
-    return record.config as TextConfig;
+    const [record] = await this.db.select().from(textPositionConfigs).where(eq(textPositionConfigs.name, name));
+    return record ? migrateTextConfig(record.config) : undefined;
   }
 
-  async saveTextPositionConfig(name: string, config: TextConfig): Promise<SelectTextPositionConfig> {
-    const [existingRecord] = await db.select().from(textPositionConfigs).where(eq(textPositionConfigs.name, name));
+  async getTextPositionConfigRecord(name: string): Promise<SelectTextPositionConfig | undefined> {
+    const [record] = await this.db.select().from(textPositionConfigs).where(eq(textPositionConfigs.name, name));
+    return record || undefined;
+  }
+
+  async saveTextPositionConfig(name: string, config: TextConfig, binding?: TextConfigBinding, revision?: TextConfigRevisionMeta): Promise<SelectTextPositionConfig> {
+    return await this.db.transaction(async (tx) => {
+      const [existingRecord] = await tx.select().from(textPositionConfigs).where(eq(textPositionConfigs.name, name));
+
+      // Configs saved before revisions existed get their current layout recorded first
+      const [priorRevision] = existingRecord
+        ? await tx.select({ id: textConfigRevisions.id }).from(textConfigRevisions).where(eq(textConfigRevisions.configName, name)).limit(1)
+        : [];
+      if (existingRecord && !priorRevision) {
+        const baseline = migrateTextConfig(existingRecord.config);
+        await tx.insert(textConfigRevisions).values({
+          configName: name,
+          config: baseline,
+          changes: diffTextConfigs(undefined, baseline),
+          authorId: null,
+          createdAt: existingRecord.updatedAt,
+        });
+      }
+
+      // Every save is kept as a revision so it can be rolled back
+      await tx.insert(textConfigRevisions).values({
+        configName: name,
+        config,
+        changes: diffTextConfigs(existingRecord ? migrateTextConfig(existingRecord.config) : undefined, config),
+        authorId: revision?.authorId ?? null,
+        restoredFromId: revision?.restoredFromId ?? null,
+      });
     
-    if (existingRecord) {
-      // Update existing record
-      const [updatedRecord] = await db
-        .update(textPositionConfigs)
-        .set({ 
-          config: config as any,
-          updatedAt: new Date()
-        })
+      if (existingRecord) {
+        // Update existing record, keeping the template binding unless a new one is given
+        const [updatedRecord] = await tx
+          .update(textPositionConfigs)
+          .set({ 
+            config: config as any,
+            ...(binding ? { templateId: binding.templateId, format: binding.format } : {}),
+            updatedAt: new Date()
+          })
+          .where(eq(textPositionConfigs.name, name))
+          .returning();
+        return updatedRecord;
+      } else {
+        // Create new record
+        const [newRecord] = await tx
+          .insert(textPositionConfigs)
+          .values({
+            name,
+            config: config as any,
+            templateId: binding?.templateId ?? null,
+            format: binding?.format ?? null,
+          })
+          .returning();
+        return newRecord;
+      }
+    });
+  }
+
+  async listTextPositionConfigs(): Promise<SelectTextPositionConfig[]> {
+    return await this.db.select().from(textPositionConfigs);
+  }
+
+  // Removes the config along with its revision history
+  async deleteTextPositionConfig(name: string): Promise<SelectTextPositionConfig | undefined> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(textConfigRevisions).where(eq(textConfigRevisions.configName, name));
+      const [record] = await tx
+        .delete(textPositionConfigs)
         .where(eq(textPositionConfigs.name, name))
         .returning();
-      return updatedRecord;
-    } else {
-      // Create new record
-      const [newRecord] = await db
-        .insert(textPositionConfigs)
-        .values({
-          name,
-          config: config as any,
-        })
-        .returning();
-      return newRecord;
-    }
+      return record || undefined;
+    });
   }
 
-  async listTextPositionConfigs(): Promise<SelectTextPositionConfig[]> {
-    return await db.select().from(textPositionConfigs);
+  async listTextConfigRevisions(name: string): Promise<TextConfigRevision[]> {
+    return await this.selectRevisions()
+      .where(eq(textConfigRevisions.configName, name))
+      .orderBy(desc(textConfigRevisions.id));
+  }
+
+  async getTextConfigRevision(id: number): Promise<TextConfigRevision | undefined> {
+    const [revision] = await this.selectRevisions().where(eq(textConfigRevisions.id, id));
+    return revision || undefined;
+  }
+
+  private selectRevisions() {
+    return this.db
+      .select({ ...getTableColumns(textConfigRevisions), authorName: users.username })
+      .from(textConfigRevisions)
+      .leftJoin(users, eq(textConfigRevisions.authorId, users.id));
   }
 
   async getAdContent(name: string): Promise<AdContent | undefined> {
-    const [record] = await db.select().from(adContents).where(eq(adContents.name, name));
-    
-    if (!record) {
-      // Return default content if none exists
-      return await this.createDefaultContent(name);
-    }
-    
-    return {
-      raceName: record.raceName,
-      prizeAmount: record.prizeAmount,
-      projectedPool: record.projectedPool,
-      day: record.day,
-      numberOfRaces: record.numberOfRaces,
-    };
+    const [record] = await this.db.select().from(adContents).where(eq(adContents.name, name));
+    return record?.values;
   }
 
-  async saveAdContent(name: string, content: AdContent): Promise<SelectAdContent> {
-    const [existingRecord] = await db.select().from(adContents).where(eq(adContents.name, name));
+  async getAdContentRecord(name: string): Promise<SelectAdContent | undefined> {
+    const [record] = await this.db.select().from(adContents).where(eq(adContents.name, name));
+    return record || undefined;
+  }
+
+  async saveAdContent(name: string, content: AdContent, binding?: AdContentBinding): Promise<SelectAdContent> {
+    const [existingRecord] = await this.db.select().from(adContents).where(eq(adContents.name, name));
     
     if (existingRecord) {
-      // Update existing record
-      const [updatedRecord] = await db
+      // Update existing record, keeping the template binding unless a new one is given
+      const [updatedRecord] = await this.db
         .update(adContents)
         .set({ 
-          raceName: content.raceName,
-          prizeAmount: content.prizeAmount,
-          projectedPool: content.projectedPool,
-          day: content.day,
-          numberOfRaces: content.numberOfRaces,
+          values: content,
+          ...(binding ? { templateId: binding.templateId, textConfigName: binding.textConfigName } : {}),
           updatedAt: new Date()
         })
         .where(eq(adContents.name, name))
@@ -116,82 +263,249 @@ export class DatabaseStorage implements IStorage {
       return updatedRecord;
     } else {
       // Create new record
-      const [newRecord] = await db
+      const [newRecord] = await this.db
         .insert(adContents)
         .values({
           name,
-          raceName: content.raceName,
-          prizeAmount: content.prizeAmount,
-          projectedPool: content.projectedPool,
-          day: content.day,
-          numberOfRaces: content.numberOfRaces,
+          values: content,
+          templateId: binding?.templateId ?? null,
+          textConfigName: binding?.textConfigName ?? null,
         })
         .returning();
       return newRecord;
     }
   }
 
-  private async createDefaultContent(name: string): Promise<AdContent> {
-    const defaultContent: AdContent = {
-      raceName: "Emerald Stakes",
-      prizeAmount: "50,000",
-      projectedPool: "125,000",
-      day: "SATURDAY",
-      numberOfRaces: "8",
-    };
-
-    await this.saveAdContent(name, defaultContent);
-    return defaultContent;
-  }
-
-  private async createDefaultConfig(name: string): Promise<TextConfig> {
-    const defaultConfig: TextConfig = {
-      raceName: {
-        bottom: 200,
-        left: 100,
-        alignment: "left",
-        fontFamily: "Montserrat-BoldItalic",
-        fontSize: 60,
-        color: "#1fd87b"
-      },
-      prizeAmount: {
-        bottom: 600,
-        left: 200,
-        alignment: "left",
-        fontFamily: "Montserrat-Black",
-        fontSize: 120,
-        color: "#ffffff"
-      },
-      projectedPool: {
-        bottom: 700,
-        left: 540,
-        alignment: "left",
-        fontFamily: "Montserrat-BoldItalic",
-        fontSize: 48,
-        color: "#1fd87b"
-      },
-      day: {
-        bottom: 800,
-        left: 700,
-        alignment: "left",
-        fontFamily: "Montserrat-BoldItalic",
-        fontSize: 48,
-        color: "#1fd87b"
-      },
-      numberOfRaces: {
-        bottom: 200,
-        center: 1340,
-        alignment: "center",
-        fontFamily: "Montserrat-Bold",
-        fontSize: 80,
-        color: "#1fd87b"
+  async listAdContents(): Promise<SelectAdContent[]> {
+    return await this.db.select().from(adContents).orderBy(adContents.name);
+  }
+
+  async renameAdContent(name: string, newName: string): Promise<SelectAdContent | undefined> {
+    const [record] = await this.db
+      .update(adContents)
+      .set({ name: newName, updatedAt: new Date() })
+      .where(eq(adContents.name, name))
+      .returning();
+    return record || undefined;
+  }
+
+  async duplicateAdContent(name: string, newName: string): Promise<SelectAdContent | undefined> {
+    const source = await this.getAdContentRecord(name);
+    if (!source) return undefined;
+
+    const [record] = await this.db
+      .insert(adContents)
+      .values({
+        name: newName,
+        values: source.values,
+        templateId: source.templateId,
+        textConfigName: source.textConfigName,
+      })
+      .returning();
+    return record;
+  }
+
+  async deleteAdContent(name: string): Promise<SelectAdContent | undefined> {
+    const [record] = await this.db
+      .delete(adContents)
+      .where(eq(adContents.name, name))
+      .returning();
+    return record || undefined;
+  }
+
+  // Moves the ad to the step's status and records the step in its review trail
+  async reviewAdContent(name: string, step: AdReviewStep): Promise<SelectAdContent | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [existingRecord] = await tx.select().from(adContents).where(eq(adContents.name, name));
+      if (!existingRecord) return undefined;
+
+      const [record] = await tx
+        .update(adContents)
+        .set({ status: step.status })
+        .where(eq(adContents.id, existingRecord.id))
+        .returning();
+      await tx.insert(adReviews).values({
+        adContentId: existingRecord.id,
+        action: step.action,
+        fromStatus: existingRecord.status,
+        toStatus: step.status,
+        comment: step.comment ?? null,
+        authorId: step.authorId,
+      });
+      return record;
+    });
+  }
+
+  async listAdReviews(name: string): Promise<AdReview[]> {
+    return await this.db
+      .select({ ...getTableColumns(adReviews), authorName: users.username })
+      .from(adReviews)
+      .innerJoin(adContents, eq(adReviews.adContentId, adContents.id))
+      .leftJoin(users, eq(adReviews.authorId, users.id))
+      .where(eq(adContents.name, name))
+      .orderBy(desc(adReviews.id));
+  }
+
+  async setAdPoolSource(name: string, sourceKey: string | null): Promise<SelectAdContent | undefined> {
+    const [record] = await this.db
+      .update(adContents)
+      .set({ poolSourceKey: sourceKey })
+      .where(eq(adContents.name, name))
+      .returning();
+    return record || undefined;
+  }
+
+  // Sets one field from a data source and records the change in the ad's audit trail
+  async refreshAdContentValue(name: string, field: string, value: FieldValue, source: string): Promise<SelectAdContent | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [existingRecord] = await tx.select().from(adContents).where(eq(adContents.name, name));
+      if (!existingRecord) return undefined;
+
+      // A changed figure is an edit like any other, so signed-off ads go back to review
+      const status = statusAfterEdit(existingRecord.status);
+      const [record] = await tx
+        .update(adContents)
+        .set({ values: { ...existingRecord.values, [field]: value }, status, updatedAt: new Date() })
+        .where(eq(adContents.id, existingRecord.id))
+        .returning();
+      await tx.insert(adValueChanges).values({
+        adContentId: existingRecord.id,
+        field,
+        fromValue: existingRecord.values[field] ?? null,
+        toValue: value,
+        source,
+      });
+      if (status !== existingRecord.status) {
+        await tx.insert(adReviews).values({
+          adContentId: existingRecord.id,
+          action: "reopen",
+          fromStatus: existingRecord.status,
+          toStatus: status,
+          comment: `${field} refreshed from ${source} source`,
+          authorId: null,
+        });
       }
-    };
+      return record;
+    });
+  }
+
+  async listAdValueChanges(name: string): Promise<AdValueChange[]> {
+    return await this.db
+      .select(getTableColumns(adValueChanges))
+      .from(adValueChanges)
+      .innerJoin(adContents, eq(adValueChanges.adContentId, adContents.id))
+      .where(eq(adContents.name, name))
+      .orderBy(desc(adValueChanges.id));
+  }
+
+  async listTemplates(): Promise<Template[]> {
+    return await this.db.select().from(templates).orderBy(templates.name);
+  }
+
+  async getTemplate(id: number): Promise<Template | undefined> {
+    const [template] = await this.db.select().from(templates).where(eq(templates.id, id));
+    return template || undefined;
+  }
+
+  async createTemplate(insertTemplate: InsertTemplate): Promise<Template> {
+    const [template] = await this.db
+      .insert(templates)
+      .values(insertTemplate)
+      .returning();
+    return template;
+  }
+
+  async updateTemplateFields(id: number, fields: FieldDefinition[]): Promise<Template | undefined> {
+    const [template] = await this.db
+      .update(templates)
+      .set({ fields })
+      .where(eq(templates.id, id))
+      .returning();
+    return template || undefined;
+  }
+
+  async updateTemplateFormats(id: number, formats: TemplateFormat[]): Promise<Template | undefined> {
+    const [template] = await this.db
+      .update(templates)
+      .set({ formats })
+      .where(eq(templates.id, id))
+      .returning();
+    return template || undefined;
+  }
+
+  async deleteTemplate(id: number): Promise<Template | undefined> {
+    const [template] = await this.db
+      .delete(templates)
+      .where(eq(templates.id, id))
+      .returning();
+    return template || undefined;
+  }
+
+  async listFonts(): Promise<SelectFont[]> {
+    return await this.db.select().from(fonts).orderBy(fonts.name);
+  }
+
+  async getFont(id: number): Promise<SelectFont | undefined> {
+    const [font] = await this.db.select().from(fonts).where(eq(fonts.id, id));
+    return font || undefined;
+  }
+
+  async createFont(insertFont: InsertFont): Promise<SelectFont> {
+    const [font] = await this.db
+      .insert(fonts)
+      .values(insertFont)
+      .returning();
+    return font;
+  }
+
+  async deleteFont(id: number): Promise<SelectFont | undefined> {
+    const [font] = await this.db
+      .delete(fonts)
+      .where(eq(fonts.id, id))
+      .returning();
+    return font || undefined;
+  }
+
+  async listAssets(): Promise<Asset[]> {
+    return await this.db.select().from(assets).orderBy(assets.name, assets.id);
+  }
+
+  async getAsset(id: number): Promise<Asset | undefined> {
+    const [asset] = await this.db.select().from(assets).where(eq(assets.id, id));
+    return asset || undefined;
+  }
+
+  async createAsset(insertAsset: InsertAsset): Promise<Asset> {
+    const [asset] = await this.db
+      .insert(assets)
+      .values(insertAsset)
+      .returning();
+    return asset;
+  }
+
+  async deleteAsset(id: number): Promise<Asset | undefined> {
+    const [asset] = await this.db
+      .delete(assets)
+      .where(eq(assets.id, id))
+      .returning();
+    return asset || undefined;
+  }
+}
+
+export const storageDrivers = ["database", "memory"] as const;
+export type StorageDriver = typeof storageDrivers[number];
 
-    // Save default config to database
-    await this.saveTextPositionConfig(name, defaultConfig);
-    return defaultConfig;
+// STORAGE_DRIVER picks the backend; without it, Postgres is used whenever DATABASE_URL is set.
+// The memory driver persists to STORAGE_FILE when that is set.
+export function createStorage(driver = process.env.STORAGE_DRIVER): IStorage {
+  switch (driver ?? (process.env.DATABASE_URL ? "database" : "memory")) {
+    case "database":
+      return new DatabaseStorage();
+    case "memory":
+      return new MemStorage(new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }), process.env.STORAGE_FILE);
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"; expected one of ${storageDrivers.join(", ")}`);
   }
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
@@ -0,0 +1,61 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+
+const uploadRoot = path.resolve(process.env.UPLOAD_DIR || path.join(process.cwd(), "uploads"));
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+export function uploadPath(category: string, fileName: string): string {
+  // basename guards against names escaping the upload directory
+  return path.join(uploadRoot, category, path.basename(fileName));
+}
+
+export async function saveDataUrl(category: string, dataUrl: string): Promise<{ fileName: string; mimeType: string }> {
+  const match = /^data:([^;]+);base64,([\s\S]*)$/.exec(dataUrl);
+  if (!match) {
+    throw new Error("Invalid data URL");
+  }
+
+  const [, mimeType, base64] = match;
+  const extension = EXTENSIONS[mimeType] ?? "bin";
+  const fileName = `${randomUUID()}.${extension}`;
+
+  await fs.mkdir(path.join(uploadRoot, category), { recursive: true });
+  await fs.writeFile(uploadPath(category, fileName), Buffer.from(base64, "base64"));
+
+  return { fileName, mimeType };
+}
+
+// Browsers label font files inconsistently, so fonts are recognised by their first bytes
+const FONT_SIGNATURES: { signature: string; extension: string; mimeType: string }[] = [
+  { signature: "OTTO", extension: "otf", mimeType: "font/otf" },
+  { signature: "\x00\x01\x00\x00", extension: "ttf", mimeType: "font/ttf" },
+  { signature: "true", extension: "ttf", mimeType: "font/ttf" },
+  { signature: "wOF2", extension: "woff2", mimeType: "font/woff2" },
+];
+
+// Saves an OTF, TTF or WOFF2 data URL; undefined when the data isn't one of those
+export async function saveFontDataUrl(category: string, dataUrl: string): Promise<{ fileName: string; mimeType: string } | undefined> {
+  const data = Buffer.from(dataUrl.slice(dataUrl.indexOf(",") + 1), "base64");
+  const format = FONT_SIGNATURES.find((candidate) => data.subarray(0, 4).toString("latin1") === candidate.signature);
+  if (!format) return undefined;
+
+  const fileName = `${randomUUID()}.${format.extension}`;
+  await saveUpload(category, fileName, data);
+  return { fileName, mimeType: format.mimeType };
+}
+
+// Writes under a fixed name, replacing any earlier file, e.g. an ad's latest render
+export async function saveUpload(category: string, fileName: string, data: Buffer): Promise<void> {
+  await fs.mkdir(path.join(uploadRoot, category), { recursive: true });
+  await fs.writeFile(uploadPath(category, fileName), data);
+}
+
+export async function deleteUpload(category: string, fileName: string): Promise<void> {
+  await fs.rm(uploadPath(category, fileName), { force: true });
+}
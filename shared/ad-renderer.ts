@@ -0,0 +1,543 @@
+import { type AdContent, type FieldDefinition, type HorizontalAlignment, type ImageLayerConfig, type LayerConfig, type TextConfig, type TextPositionConfig, type VerticalAnchor } from "./schema";
+import { DEFAULT_FIELDS, DEFAULT_TEXT_CONFIG, DEFAULT_TEXT_POSITION } from "./defaults";
+import { formatFieldValue } from "./fields";
+import { DEFAULT_FONT, findFont, fontCss } from "./fonts";
+import { parseRichText, type TextRun } from "./rich-text";
+
+// Layout and drawing logic shared by the browser preview (CanvasRenderer) and
+// the server-side PNG renderer, so both produce the same image.
+
+export const DEFAULT_CANVAS_WIDTH = 1920;
+export const DEFAULT_CANVAS_HEIGHT = 1080;
+
+export function drawFallbackTemplate(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+  // Create a fallback green template matching the harness racing theme
+  ctx.fillStyle = '#22c55e';
+  ctx.fillRect(0, 0, width, height);
+
+  // Add some gradient for visual appeal
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, '#16a34a');
+  gradient.addColorStop(1, '#22c55e');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // Add "TEMPLATE" watermark
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+  ctx.font = 'bold 120px Montserrat, Arial, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText('TEMPLATE', width / 2, height / 2);
+}
+
+export function drawTemplate(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  templateImage: CanvasImageSource | null,
+): void {
+  if (templateImage) {
+    // Clear canvas and draw template image
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(templateImage, 0, 0, width, height);
+  } else {
+    drawFallbackTemplate(ctx, width, height);
+  }
+}
+
+// Large diagonal text across the whole ad, e.g. "DRAFT" before sign-off
+export function drawWatermark(ctx: CanvasRenderingContext2D, width: number, height: number, text: string): void {
+  ctx.save();
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate(-Math.atan2(height, width));
+  ctx.font = `900 ${Math.round(Math.min(width, height) * 0.3)}px Montserrat, Arial, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.35)';
+  ctx.lineWidth = Math.max(1, Math.min(width, height) * 0.004);
+  ctx.fillText(text, 0, 0);
+  ctx.strokeText(text, 0, 0);
+  ctx.restore();
+}
+
+export type TextFieldKey = FieldDefinition["key"];
+
+export interface TextFieldBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Display strings for each field, in draw order
+export function getFieldTexts(content: AdContent, fields: FieldDefinition[] = DEFAULT_FIELDS): Record<TextFieldKey, string> {
+  return Object.fromEntries(fields.map((field) => [field.key, formatFieldValue(field, content[field.key])]));
+}
+
+export function isImageLayer(layer: LayerConfig): layer is ImageLayerConfig {
+  return layer.kind === "image";
+}
+
+// Position of a field, falling back for fields added to a template after its config was saved
+export function getFieldPosition(config: TextConfig, key: TextFieldKey): TextPositionConfig {
+  const layer = config[key];
+  return layer && !isImageLayer(layer) ? layer : DEFAULT_TEXT_POSITION;
+}
+
+// Horizontal anchor of a field, as stored in its alignment-specific property
+export function getAnchorX(config: TextPositionConfig): number {
+  return config[config.alignment] ?? 0;
+}
+
+// Vertical anchor of a field, as stored in its anchor-specific property
+export function getAnchorY(config: TextPositionConfig): number {
+  return config[config.verticalAnchor] ?? 0;
+}
+
+const TEXT_BASELINES: Record<VerticalAnchor, CanvasTextBaseline> = {
+  top: "top",
+  middle: "middle",
+  baseline: "alphabetic",
+  bottom: "bottom",
+};
+
+// Move a field so its anchor sits at (x, y), keeping its alignment and vertical anchor
+export function setAnchor(config: TextPositionConfig, x: number, y: number): TextPositionConfig {
+  return {
+    ...config,
+    [config.alignment]: Math.max(0, Math.round(x)),
+    [config.verticalAnchor]: Math.max(0, Math.round(y)),
+  };
+}
+
+// Switch alignment, carrying the current x coordinate over to the new anchor property
+export function setAlignment(config: TextPositionConfig, alignment: HorizontalAlignment): TextPositionConfig {
+  const { left, center, right, ...rest } = config;
+  return { ...rest, alignment, [alignment]: getAnchorX(config) };
+}
+
+// Switch vertical anchor, carrying the current y coordinate over to the new anchor property
+export function setVerticalAnchor(config: TextPositionConfig, verticalAnchor: VerticalAnchor): TextPositionConfig {
+  const { top, middle, baseline, bottom, ...rest } = config;
+  return { ...rest, verticalAnchor, [verticalAnchor]: getAnchorY(config) };
+}
+
+// An uploaded asset loaded for drawing: an HTMLImageElement in the browser, a skia Image on the server
+export type AssetImage = CanvasImageSource & { width: number; height: number };
+// Loaded assets by id; layers whose asset is missing draw nothing
+export type AssetImages = Record<number, AssetImage>;
+
+// A 2D context on a new blank canvas of the given size, for drawing a layer before compositing it
+export type CreateLayerContext = (width: number, height: number) => CanvasRenderingContext2D;
+
+export interface OrderedLayer<T extends LayerConfig = LayerConfig> {
+  key: string;
+  layer: T;
+}
+
+// Image layers in the order they were added
+export function getImageLayers(config: TextConfig): OrderedLayer<ImageLayerConfig>[] {
+  return Object.entries(config).flatMap(([key, layer]) => (isImageLayer(layer) ? [{ key, layer }] : []));
+}
+
+// Every layer bottom to top: a text layer for each field, whether or not the config has
+// one yet, and the image layers, sorted by zIndex
+export function getLayerOrder(config: TextConfig, fields: FieldDefinition[] = DEFAULT_FIELDS): OrderedLayer[] {
+  const layers: OrderedLayer[] = [
+    ...fields.map((field) => ({ key: field.key, layer: getFieldPosition(config, field.key) })),
+    ...getImageLayers(config),
+  ];
+  // sort is stable, so layers with the same zIndex keep the order above
+  return layers.sort((a, b) => (a.layer.zIndex ?? 0) - (b.layer.zIndex ?? 0));
+}
+
+// The point a layer is dragged by: a text layer's anchor or an image layer's top-left corner
+export function getLayerOrigin(layer: LayerConfig): { x: number; y: number } {
+  return isImageLayer(layer) ? { x: layer.x, y: layer.y } : { x: getAnchorX(layer), y: getAnchorY(layer) };
+}
+
+export function setLayerOrigin(layer: LayerConfig, x: number, y: number): LayerConfig {
+  return isImageLayer(layer) ? { ...layer, x: Math.round(x), y: Math.round(y) } : setAnchor(layer, x, y);
+}
+
+// The part of the image to draw and where it lands inside the layer's box
+export function getImagePlacement(layer: ImageLayerConfig, imageWidth: number, imageHeight: number): { source: TextFieldBounds; target: TextFieldBounds } {
+  const source = { x: 0, y: 0, width: imageWidth, height: imageHeight };
+  const box = { x: layer.x, y: layer.y, width: layer.width, height: layer.height };
+  if (layer.fit === "fill") return { source, target: box };
+
+  if (layer.fit === "contain") {
+    const scale = Math.min(box.width / imageWidth, box.height / imageHeight);
+    const width = imageWidth * scale;
+    const height = imageHeight * scale;
+    return { source, target: { x: box.x + (box.width - width) / 2, y: box.y + (box.height - height) / 2, width, height } };
+  }
+
+  // Cover crops the image's centre to the box's aspect ratio
+  const scale = Math.max(box.width / imageWidth, box.height / imageHeight);
+  const width = box.width / scale;
+  const height = box.height / scale;
+  return { source: { x: (imageWidth - width) / 2, y: (imageHeight - height) / 2, width, height }, target: box };
+}
+
+// Line spacing for wrapped text, as a multiple of the font size
+const LINE_HEIGHT = 1.15;
+const DEFAULT_MIN_FONT_SIZE = 8;
+
+// One line of a field: its runs in order, each with its own font and colour
+export type TextLine = TextRun[];
+
+export interface TextFieldLayout {
+  lines: TextLine[];
+  fontSize: number;
+  lineHeight: number;
+  // True when the text still exceeds its fit box at the minimum font size
+  overflow: boolean;
+  bounds: TextFieldBounds;
+}
+
+// The fit box implied by maxWidth/maxHeight around the field's anchor, if any
+export function getFitBox(config: TextPositionConfig): TextFieldBounds | null {
+  if (config.maxWidth === undefined && config.maxHeight === undefined) return null;
+
+  const x = getAnchorX(config);
+  const y = getAnchorY(config);
+  const width = config.maxWidth ?? 0;
+  const height = config.maxHeight ?? 0;
+  const xOffset = { left: 0, center: width / 2, right: width }[config.alignment];
+  const yOffset = { top: 0, middle: height / 2, baseline: height, bottom: height }[config.verticalAnchor];
+
+  return { x: x - xOffset, y: y - yOffset, width, height };
+}
+
+// Runs without a font of their own use the field's
+function runFont(run: TextRun, config: TextPositionConfig, fontSize: number): string {
+  return getFontString(run.fontFamily ?? config.fontFamily, fontSize);
+}
+
+function measureRun(ctx: CanvasRenderingContext2D, run: TextRun, config: TextPositionConfig, fontSize: number): TextMetrics {
+  ctx.font = runFont(run, config, fontSize);
+  return ctx.measureText(run.text);
+}
+
+function measureLine(ctx: CanvasRenderingContext2D, line: TextLine, config: TextPositionConfig, fontSize: number): number {
+  return line.reduce((width, run) => width + measureRun(ctx, run, config, fontSize).width, 0);
+}
+
+// Words keep their runs, so a word can change style part-way through
+function splitWords(runs: TextRun[]): TextLine[] {
+  const words: TextLine[] = [];
+  let word: TextLine = [];
+
+  for (const run of runs) {
+    for (const part of run.text.split(/(\s+)/)) {
+      if (/^\s+$/.test(part)) {
+        if (word.length > 0) words.push(word);
+        word = [];
+      } else if (part) {
+        word.push({ ...run, text: part });
+      }
+    }
+  }
+
+  return word.length > 0 ? [...words, word] : words;
+}
+
+// Puts words back on one line, single-spaced, merging neighbours styled alike so they
+// draw (and kern) as one string
+function joinWords(words: TextLine[]): TextLine {
+  const line: TextLine = [];
+
+  words.forEach((word, index) => {
+    word.forEach((run, runIndex) => {
+      const spaced = index < words.length - 1 && runIndex === word.length - 1 ? `${run.text} ` : run.text;
+      const previous = line[line.length - 1];
+      if (previous && previous.fontFamily === run.fontFamily && previous.color === run.color) {
+        previous.text += spaced;
+      } else {
+        line.push({ ...run, text: spaced });
+      }
+    });
+  });
+
+  return line.length > 0 ? line : [{ text: "" }];
+}
+
+function wrapRuns(ctx: CanvasRenderingContext2D, runs: TextRun[], config: TextPositionConfig, fontSize: number, maxWidth: number): TextLine[] {
+  const lines: TextLine[] = [];
+  let words: TextLine[] = [];
+
+  for (const word of splitWords(runs)) {
+    const candidate = [...words, word];
+    if (words.length > 0 && measureLine(ctx, joinWords(candidate), config, fontSize) > maxWidth) {
+      lines.push(joinWords(words));
+      words = [word];
+    } else {
+      words = candidate;
+    }
+  }
+
+  return [...lines, joinWords(words)];
+}
+
+function fitLines(
+  ctx: CanvasRenderingContext2D,
+  runs: TextRun[],
+  config: TextPositionConfig,
+  fontSize: number,
+): { lines: TextLine[]; fits: boolean } {
+  const lines = config.overflow === "wrap" && config.maxWidth !== undefined
+    ? wrapRuns(ctx, runs, config, fontSize, config.maxWidth)
+    : [runs];
+
+  const widest = Math.max(...lines.map((line) => measureLine(ctx, line, config, fontSize)));
+  const fitsWidth = config.maxWidth === undefined || widest <= config.maxWidth;
+  const fitsHeight = config.maxHeight === undefined || lines.length * fontSize * LINE_HEIGHT <= config.maxHeight;
+
+  return { lines, fits: fitsWidth && fitsHeight };
+}
+
+interface PlacedRun {
+  run: TextRun;
+  x: number;
+  metrics: TextMetrics;
+}
+
+// Runs are drawn left to right from wherever the field's alignment puts the whole line
+function placeRuns(ctx: CanvasRenderingContext2D, line: TextLine, config: TextPositionConfig, fontSize: number): PlacedRun[] {
+  const measured = line.map((run) => ({ run, metrics: measureRun(ctx, run, config, fontSize) }));
+  const width = measured.reduce((sum, { metrics }) => sum + metrics.width, 0);
+  let x = getTextX(config) - width * ALIGNMENT_OFFSETS[config.alignment];
+
+  return measured.map(({ run, metrics }) => {
+    const placed = { run, x, metrics };
+    x += metrics.width;
+    return placed;
+  });
+}
+
+// Work out the font size and line breaks for a field, shrinking until it fits its box
+export function layoutTextField(ctx: CanvasRenderingContext2D, text: string, config: TextPositionConfig): TextFieldLayout {
+  const runs = parseRichText(text).map((run) => (config.textTransform === "uppercase" ? { ...run, text: run.text.toUpperCase() } : run));
+  ctx.save();
+  applyTextStyle(ctx, config);
+
+  const minFontSize = Math.min(config.minFontSize ?? DEFAULT_MIN_FONT_SIZE, config.fontSize);
+  let fontSize = config.fontSize;
+  let fitted = fitLines(ctx, runs, config, fontSize);
+
+  while (!fitted.fits && fontSize > minFontSize) {
+    fontSize = Math.max(minFontSize, fontSize - 1);
+    fitted = fitLines(ctx, runs, config, fontSize);
+  }
+
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const firstY = getLineY(getAnchorY(config), config.verticalAnchor, fitted.lines.length, lineHeight);
+
+  // Union of the ink boxes of every run
+  let left = Infinity, top = Infinity, right = -Infinity, bottom = -Infinity;
+  fitted.lines.forEach((line, index) => {
+    const y = firstY + index * lineHeight;
+    for (const { x, metrics } of placeRuns(ctx, line, config, fontSize)) {
+      left = Math.min(left, x - metrics.actualBoundingBoxLeft);
+      right = Math.max(right, x + metrics.actualBoundingBoxRight);
+      top = Math.min(top, y - metrics.actualBoundingBoxAscent);
+      bottom = Math.max(bottom, y + metrics.actualBoundingBoxDescent);
+    }
+  });
+  ctx.restore();
+
+  return {
+    lines: fitted.lines,
+    fontSize,
+    lineHeight,
+    overflow: !fitted.fits,
+    bounds: { x: left, y: top, width: right - left, height: bottom - top },
+  };
+}
+
+// y of the first line: top anchors grow down, bottom/baseline anchors grow up, middle centres the block
+function getLineY(anchorY: number, verticalAnchor: VerticalAnchor, lineCount: number, lineHeight: number): number {
+  switch (verticalAnchor) {
+    case "top":
+      return anchorY;
+    case "middle":
+      return anchorY - ((lineCount - 1) * lineHeight) / 2;
+    default:
+      return anchorY - (lineCount - 1) * lineHeight;
+  }
+}
+
+// Draws every layer bottom to top and returns the text layouts by field key
+export function drawLayers(
+  ctx: CanvasRenderingContext2D,
+  content: AdContent,
+  textConfig?: TextConfig,
+  fields: FieldDefinition[] = DEFAULT_FIELDS,
+  images: AssetImages = {},
+  createLayer?: CreateLayerContext,
+): Record<TextFieldKey, TextFieldLayout> {
+  // Use provided config or fall back to defaults
+  const config = textConfig || DEFAULT_TEXT_CONFIG;
+  const texts = getFieldTexts(content, fields);
+  const layouts: Record<TextFieldKey, TextFieldLayout> = {};
+
+  for (const { key, layer } of getLayerOrder(config, fields)) {
+    if (isImageLayer(layer)) {
+      drawImageLayer(ctx, layer, images[layer.assetId]);
+    } else {
+      layouts[key] = drawTextField(ctx, texts[key], layer, createLayer);
+    }
+  }
+
+  return layouts;
+}
+
+// Alignment is applied by placeRuns, so runs are always drawn from their left edge
+function applyTextStyle(ctx: CanvasRenderingContext2D, config: TextPositionConfig, fontSize = config.fontSize): void {
+  ctx.textBaseline = TEXT_BASELINES[config.verticalAnchor];
+  ctx.fillStyle = config.color;
+  ctx.font = getFontString(config.fontFamily, fontSize);
+  ctx.textAlign = "left";
+  ctx.letterSpacing = `${config.letterSpacing ?? 0}px`;
+}
+
+// How much of a line's width sits left of the anchor
+const ALIGNMENT_OFFSETS: Record<HorizontalAlignment, number> = { left: 0, center: 0.5, right: 1 };
+
+// Letter spacing also follows the last character, so centred and right-aligned text is
+// nudged right to keep the visible glyphs on the anchor
+function getTextX(config: TextPositionConfig): number {
+  return getAnchorX(config) + (config.letterSpacing ?? 0) * ALIGNMENT_OFFSETS[config.alignment];
+}
+
+// A linear gradient across the text's bounds, running from color to gradientColor
+function createTextGradient(ctx: CanvasRenderingContext2D, bounds: TextFieldBounds, config: TextPositionConfig): CanvasGradient {
+  const angle = ((config.gradientAngle ?? 90) * Math.PI) / 180;
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  // Half the box's extent along the gradient, so both colours reach its corners
+  const half = (Math.abs(bounds.width * dx) + Math.abs(bounds.height * dy)) / 2;
+  const cx = bounds.x + bounds.width / 2;
+  const cy = bounds.y + bounds.height / 2;
+
+  const gradient = ctx.createLinearGradient(cx - dx * half, cy - dy * half, cx + dx * half, cy + dy * half);
+  gradient.addColorStop(0, config.color);
+  gradient.addColorStop(1, config.gradientColor!);
+  return gradient;
+}
+
+// A see-through field is drawn opaque on its own layer and composited at its opacity, so
+// the inner half of the outline doesn't show through the fill. Without a layer each pass
+// is drawn at the opacity instead.
+function drawTextField(ctx: CanvasRenderingContext2D, text: string, config: TextPositionConfig, createLayer?: CreateLayerContext): TextFieldLayout {
+  if (config.opacity === undefined || config.opacity >= 1 || !createLayer) return paintTextField(ctx, text, config);
+
+  const layer = createLayer(ctx.canvas.width, ctx.canvas.height);
+  layer.setTransform(ctx.getTransform());
+  const layout = paintTextField(layer, text, { ...config, opacity: undefined });
+
+  ctx.save();
+  ctx.globalAlpha = config.opacity;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.drawImage(layer.canvas, 0, 0);
+  ctx.restore();
+  return layout;
+}
+
+function paintTextField(ctx: CanvasRenderingContext2D, text: string, config: TextPositionConfig): TextFieldLayout {
+  const layout = layoutTextField(ctx, text, config);
+  const firstY = getLineY(getAnchorY(config), config.verticalAnchor, layout.lines.length, layout.lineHeight);
+  const lineY = (index: number) => firstY + index * layout.lineHeight;
+
+  ctx.save();
+  applyTextStyle(ctx, config, layout.fontSize);
+  // Runs with a colour of their own are drawn in it instead of the field's colour or gradient
+  const fill = config.gradientColor ? createTextGradient(ctx, layout.bounds, config) : config.color;
+  if (config.opacity !== undefined) ctx.globalAlpha = config.opacity;
+  if (config.shadowColor) {
+    ctx.shadowColor = config.shadowColor;
+    ctx.shadowOffsetX = config.shadowOffsetX ?? 0;
+    ctx.shadowOffsetY = config.shadowOffsetY ?? 4;
+    ctx.shadowBlur = config.shadowBlur ?? 8;
+  }
+
+  const placedLines = layout.lines.map((line) => placeRuns(ctx, line, config, layout.fontSize));
+  const drawRuns = (draw: (run: TextRun, x: number, y: number) => void) => {
+    placedLines.forEach((placed, index) => {
+      for (const { run, x } of placed) {
+        ctx.font = runFont(run, config, layout.fontSize);
+        draw(run, x, lineY(index));
+      }
+    });
+  };
+
+  if (config.strokeWidth) {
+    // Half the line falls inside the glyphs and is covered by the fill
+    ctx.strokeStyle = config.strokeColor ?? "#000000";
+    ctx.lineWidth = config.strokeWidth * 2;
+    ctx.lineJoin = "round";
+    drawRuns((run, x, y) => ctx.strokeText(run.text, x, y));
+    // The outline already casts the shadow
+    ctx.shadowColor = "transparent";
+  }
+  drawRuns((run, x, y) => {
+    ctx.fillStyle = run.color ?? fill;
+    ctx.fillText(run.text, x, y);
+  });
+  ctx.restore();
+
+  return layout;
+}
+
+function drawImageLayer(ctx: CanvasRenderingContext2D, layer: ImageLayerConfig, image: AssetImage | undefined): void {
+  if (!image) return;
+
+  const { source, target } = getImagePlacement(layer, image.width, image.height);
+  ctx.save();
+  if (layer.opacity !== undefined) ctx.globalAlpha = layer.opacity;
+  ctx.drawImage(image, source.x, source.y, source.width, source.height, target.x, target.y, target.width, target.height);
+  ctx.restore();
+}
+
+// Laid-out field bounds as drawn by drawLayers, used for hit-testing and snapping
+export function layoutTextFields(
+  ctx: CanvasRenderingContext2D,
+  content: AdContent,
+  textConfig?: TextConfig,
+  fields: FieldDefinition[] = DEFAULT_FIELDS,
+): Record<TextFieldKey, TextFieldLayout> {
+  const config = textConfig || DEFAULT_TEXT_CONFIG;
+  const texts = getFieldTexts(content, fields);
+  const layouts: Record<TextFieldKey, TextFieldLayout> = {};
+
+  for (const key of Object.keys(texts)) {
+    layouts[key] = layoutTextField(ctx, texts[key], getFieldPosition(config, key));
+  }
+
+  return layouts;
+}
+
+// Font names come from the registry in ./fonts; unknown names fall back to Montserrat Regular
+export function getFontString(fontFamily: string, fontSize: number): string {
+  return fontCss(findFont(fontFamily) ?? DEFAULT_FONT, fontSize);
+}
+
+export function renderAd(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  templateImage: CanvasImageSource | null,
+  content: AdContent,
+  textConfig?: TextConfig,
+  fields: FieldDefinition[] = DEFAULT_FIELDS,
+  watermark?: string,
+  images: AssetImages = {},
+  createLayer?: CreateLayerContext,
+): Record<TextFieldKey, TextFieldLayout> {
+  // Start with clean template
+  drawTemplate(ctx, width, height, templateImage);
+  const layouts = drawLayers(ctx, content, textConfig, fields, images, createLayer);
+  if (watermark) drawWatermark(ctx, width, height, watermark);
+  return layouts;
+}
@@ -0,0 +1,49 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatCurrency, parseCurrencyInput, toCurrencyValue } from "./currency";
+
+describe("parseCurrencyInput", () => {
+  it("reads plain, grouped, symbol and compact amounts", () => {
+    assert.deepEqual(parseCurrencyInput("50000"), { amount: 50000 });
+    assert.deepEqual(parseCurrencyInput("50,000"), { amount: 50000 });
+    assert.deepEqual(parseCurrencyInput("$1.2M"), { amount: 1200000 });
+    assert.deepEqual(parseCurrencyInput(" $ 250k "), { amount: 250000 });
+    assert.deepEqual(parseCurrencyInput(".5"), { amount: 0.5 });
+  });
+
+  it("takes the currency from a code or dollar prefix", () => {
+    assert.deepEqual(parseCurrencyInput("USD 50000"), { amount: 50000, currency: "USD" });
+    assert.deepEqual(parseCurrencyInput("nzd 1.5m"), { amount: 1500000, currency: "NZD" });
+    assert.deepEqual(parseCurrencyInput("A$50,000"), { amount: 50000, currency: "AUD" });
+    assert.deepEqual(parseCurrencyInput("US$2B"), { amount: 2000000000, currency: "USD" });
+  });
+
+  it("rejects prefixes that name no currency and malformed amounts", () => {
+    for (const input of ["abc50000", "XYZ 5", "Q$5", "US 5", "$$5", "5$", "1.2.3", "", "fifty"]) {
+      assert.equal(parseCurrencyInput(input), undefined, input);
+    }
+  });
+});
+
+describe("toCurrencyValue", () => {
+  it("uses the field's currency unless the text names one", () => {
+    assert.deepEqual(toCurrencyValue("$1.2M", { currency: "NZD" }), { amount: 1200000, currency: "NZD" });
+    assert.deepEqual(toCurrencyValue("USD 50000", { currency: "NZD" }), { amount: 50000, currency: "USD" });
+    assert.deepEqual(toCurrencyValue("50,000", {}), { amount: 50000, currency: "AUD" });
+    assert.equal(toCurrencyValue("abc50000", {}), undefined);
+  });
+
+  it("keeps stored amounts and ignores anything else", () => {
+    assert.deepEqual(toCurrencyValue({ amount: 5, currency: "USD" }, { currency: "AUD" }), { amount: 5, currency: "USD" });
+    assert.equal(toCurrencyValue({ amount: -5, currency: "USD" }, {}), undefined);
+    assert.equal(toCurrencyValue(5, {}), undefined);
+  });
+});
+
+describe("formatCurrency", () => {
+  it("writes amounts with a symbol, code or compact notation", () => {
+    assert.equal(formatCurrency({ amount: 50000, currency: "AUD" }), "$50,000");
+    assert.equal(formatCurrency({ amount: 1200000, currency: "AUD" }, { notation: "compact" }), "$1.2M");
+    assert.equal(formatCurrency({ amount: 50000, currency: "AUD" }, { display: "code" }), "AUD\u00a050,000");
+  });
+});
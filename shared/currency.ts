@@ -0,0 +1,66 @@
+import { type CurrencyFormat, type CurrencyValue, type FieldDefinition } from "./schema";
+
+// Separators and symbols follow Australian conventions, where the ads run
+export const CURRENCY_LOCALE = "en-AU";
+export const DEFAULT_CURRENCY = "AUD";
+
+const MULTIPLIERS: Record<string, number> = { "": 1, k: 1e3, m: 1e6, b: 1e9 };
+
+const CURRENCY_CODES = new Set(Intl.supportedValuesOf("currency"));
+
+// Short prefixes that name a dollar, as in "A$50,000"
+const DOLLAR_PREFIXES: Record<string, string> = { A: "AUD", AU: "AUD", NZ: "NZD", US: "USD", C: "CAD", HK: "HKD", S: "SGD" };
+
+// Reads amounts as people type or import them: "50000", "50,000", "$50,000", "1.2M", along with
+// the currency a prefix names ("USD 50,000", "A$1.2M"). Letters that name no currency are rejected.
+export function parseCurrencyInput(input: string): { amount: number; currency?: string } | undefined {
+  const match = input.replace(/[,\s]/g, "").match(/^([A-Za-z]{1,3})?(\$?)(\d+(?:\.\d+)?|\.\d+)([kKmMbB]?)$/);
+  if (!match) return undefined;
+
+  const [, letters = "", dollar, digits, multiplier] = match;
+  const prefix = letters.toUpperCase();
+  const currency = prefix.length === 3 ? prefix : dollar ? DOLLAR_PREFIXES[prefix] : undefined;
+  if (prefix && !(currency && CURRENCY_CODES.has(currency))) return undefined;
+
+  const amount = Math.round(Number(digits) * MULTIPLIERS[multiplier.toLowerCase()] * 100) / 100;
+  return currency ? { amount, currency } : { amount };
+}
+
+export function parseCurrencyAmount(input: string): number | undefined {
+  return parseCurrencyInput(input)?.amount;
+}
+
+// A currency field's value from stored, typed or imported input; undefined when it isn't an amount.
+// Text is taken to be in the field's currency unless it names another.
+export function toCurrencyValue(value: unknown, field: Pick<FieldDefinition, "currency">): CurrencyValue | undefined {
+  if (typeof value === "string") {
+    const parsed = parseCurrencyInput(value);
+    return parsed && { amount: parsed.amount, currency: parsed.currency ?? field.currency ?? DEFAULT_CURRENCY };
+  }
+
+  if (isCurrencyValue(value)) return { amount: value.amount, currency: value.currency };
+  return undefined;
+}
+
+export function isCurrencyValue(value: unknown): value is CurrencyValue {
+  const candidate = value as Partial<CurrencyValue> | null;
+  return typeof candidate === "object" && candidate !== null
+    && typeof candidate.amount === "number" && Number.isFinite(candidate.amount) && candidate.amount >= 0
+    && typeof candidate.currency === "string" && /^[A-Z]{3}$/.test(candidate.currency);
+}
+
+// "$50,000" by default; compact notation gives "$1.2M"
+export function formatCurrency(value: CurrencyValue, format: CurrencyFormat = {}): string {
+  const display = format.display ?? "symbol";
+  const compact = format.notation === "compact";
+
+  return new Intl.NumberFormat(CURRENCY_LOCALE, {
+    ...(display === "none"
+      ? {}
+      : { style: "currency", currency: value.currency, currencyDisplay: display === "code" ? "code" : "narrowSymbol" }),
+    notation: compact ? "compact" : "standard",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: format.decimals ?? (compact ? 1 : 0),
+    useGrouping: format.grouping ?? true,
+  }).format(value.amount);
+}
@@ -0,0 +1,79 @@
+import { addDays, format, isSameDay, isValid, parse, parseISO, set, startOfDay } from "date-fns";
+import { type FieldDefinition } from "./schema";
+
+// Race days are stored as the local date and first post time, "2026-10-24T19:15",
+// which is what a datetime-local input reads and writes
+const RACE_DAY_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+// Date fields without a pattern show the weekday, e.g. "SATURDAY"
+export const DEFAULT_DATE_PATTERN = "EEEE";
+
+// Meetings whose first race starts from this hour are billed as "TONIGHT"
+const NIGHT_MEETING_HOUR = 17;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// Reads stored or imported race days; a space may stand in for the "T"
+export function parseRaceDay(value: unknown): Date | undefined {
+  if (typeof value !== "string") return undefined;
+  const text = value.trim().replace(" ", "T");
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(text)) return undefined;
+
+  const date = parse(text, RACE_DAY_FORMAT, new Date());
+  return isValid(date) ? date : undefined;
+}
+
+export function toRaceDayValue(date: Date): string {
+  return format(date, RACE_DAY_FORMAT);
+}
+
+// Date field defaults name a weekday and post time, "saturday 19:00", meaning the next
+// such day (today included), so new ads don't start on a date that has passed.
+// A fixed race day is also accepted.
+export function resolveRaceDayDefault(text: string, now = new Date()): string | undefined {
+  const fixed = parseRaceDay(text);
+  if (fixed) return toRaceDayValue(fixed);
+
+  const match = text.trim().toLowerCase().match(/^([a-z]+)\s+(\d{1,2}):(\d{2})$/);
+  const weekday = match ? WEEKDAYS.indexOf(match[1]) : -1;
+  if (!match || weekday === -1) return undefined;
+
+  const hours = Number(match[2]);
+  const minutes = Number(match[3]);
+  if (hours > 23 || minutes > 59) return undefined;
+
+  const day = addDays(startOfDay(now), (weekday - now.getDay() + 7) % 7);
+  return toRaceDayValue(set(day, { hours, minutes }));
+}
+
+// YYYY-MM-DD naming a real day; "2026-02-31" has the shape but date-fns can't format it
+export function isCalendarDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+}
+
+// "H:mm" or "HH:mm" on a 24-hour clock
+export function isClockTime(value: string): boolean {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  return !!match && Number(match[1]) <= 23 && Number(match[2]) <= 59;
+}
+
+// date-fns rejects patterns with unquoted letters it doesn't know
+export function isValidDatePattern(pattern: string): boolean {
+  try {
+    format(new Date(), pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// "SATURDAY" or "SAT 14 SEP" from the field's pattern. With relative days, a meeting
+// today or tomorrow reads "TONIGHT", "TODAY" or "TOMORROW" at the time it is rendered.
+export function formatRaceDay(date: Date, field: Pick<FieldDefinition, "dateFormat" | "relativeDay">, now = new Date()): string {
+  if (field.relativeDay) {
+    if (isSameDay(date, now)) return date.getHours() >= NIGHT_MEETING_HOUR ? "TONIGHT" : "TODAY";
+    if (isSameDay(date, addDays(now, 1))) return "TOMORROW";
+  }
+
+  return format(date, field.dateFormat || DEFAULT_DATE_PATTERN).toUpperCase();
+}
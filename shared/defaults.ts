@@ -0,0 +1,98 @@
+import { toNumberValue, type AdContent, type FieldDefinition, type FieldValue, type TextConfig, type TextPositionConfig } from "./schema";
+import { DEFAULT_CURRENCY, toCurrencyValue } from "./currency";
+import { resolveRaceDayDefault } from "./dates";
+
+// Single source of defaults for the client preview, the server renderer and
+// records created by storage.
+
+// Field list used by the built-in template and templates that don't declare their own
+export const DEFAULT_FIELDS: FieldDefinition[] = [
+  { key: "raceName", label: "Race Name", type: "text", default: "Emerald Stakes" },
+  { key: "prizeAmount", label: "Prize Amount", type: "currency", default: "50000", currency: DEFAULT_CURRENCY },
+  { key: "projectedPool", label: "Projected Pool", type: "currency", default: "125000", currency: DEFAULT_CURRENCY },
+  { key: "day", label: "Race Day & First Post", type: "datetime", default: "saturday 19:00", dateFormat: "EEEE" },
+  { key: "numberOfRaces", label: "Number of Races", type: "number", default: "8", min: 1, max: 20, integer: true },
+];
+
+// A field's default in the shape its values are stored in; defaults are written as text in definitions
+export function defaultFieldValue(field: FieldDefinition, now = new Date()): FieldValue {
+  switch (field.type) {
+    case "currency":
+      return toCurrencyValue(field.default, field) ?? field.default;
+    case "number":
+      return toNumberValue(field.default) ?? field.default;
+    case "datetime":
+      return resolveRaceDayDefault(field.default, now) ?? field.default;
+    default:
+      return field.default;
+  }
+}
+
+export const DEFAULT_AD_CONTENT: AdContent = Object.fromEntries(
+  DEFAULT_FIELDS.map((field) => [field.key, defaultFieldValue(field)]),
+);
+
+// Position given to fields that have no entry in a text config yet
+export const DEFAULT_TEXT_POSITION: TextPositionConfig = {
+  kind: "text",
+  top: 100,
+  left: 100,
+  alignment: "left",
+  verticalAnchor: "top",
+  fontFamily: "Montserrat-BoldItalic",
+  fontSize: 48,
+  color: "#ffffff"
+};
+
+export const DEFAULT_TEXT_CONFIG: TextConfig = {
+  raceName: {
+    kind: "text",
+    bottom: 200,
+    left: 100,
+    alignment: "left",
+    verticalAnchor: "bottom",
+    fontFamily: "Montserrat-BoldItalic",
+    fontSize: 60,
+    color: "#1fd87b"
+  },
+  prizeAmount: {
+    kind: "text",
+    bottom: 600,
+    left: 200,
+    alignment: "left",
+    verticalAnchor: "bottom",
+    fontFamily: "Montserrat-Black",
+    fontSize: 120,
+    color: "#ffffff"
+  },
+  projectedPool: {
+    kind: "text",
+    bottom: 700,
+    left: 540,
+    alignment: "left",
+    verticalAnchor: "bottom",
+    fontFamily: "Montserrat-BoldItalic",
+    fontSize: 48,
+    color: "#1fd87b"
+  },
+  day: {
+    kind: "text",
+    bottom: 800,
+    left: 700,
+    alignment: "left",
+    verticalAnchor: "bottom",
+    fontFamily: "Montserrat-BoldItalic",
+    fontSize: 48,
+    color: "#1fd87b"
+  },
+  numberOfRaces: {
+    kind: "text",
+    bottom: 200,
+    center: 1340,
+    alignment: "center",
+    verticalAnchor: "bottom",
+    fontFamily: "Montserrat-Bold",
+    fontSize: 80,
+    color: "#1fd87b"
+  }
+};
@@ -0,0 +1,53 @@
+import { type AdContent, type FieldDefinition, type FieldValue, type Template } from "./schema";
+import { DEFAULT_FIELDS, defaultFieldValue } from "./defaults";
+import { formatCurrency, isCurrencyValue, toCurrencyValue } from "./currency";
+import { formatRaceDay, parseRaceDay } from "./dates";
+import { migrateFieldDefinitions } from "./migrate";
+
+// Field definitions for a template; the built-in template (undefined) uses the defaults
+export function getTemplateFields(template?: Pick<Template, "fields"> | null): FieldDefinition[] {
+  return template?.fields ? migrateFieldDefinitions(template.fields) : DEFAULT_FIELDS;
+}
+
+// The currency field live pool refreshes keep current; templates without one can't follow a pool
+export const POOL_FIELD = "projectedPool";
+
+export function getPoolField(fields: FieldDefinition[]): FieldDefinition | undefined {
+  return fields.find((field) => field.key === POOL_FIELD && field.type === "currency");
+}
+
+// Content with every declared field present, filling gaps from field defaults.
+// Values for fields the template doesn't declare are kept so switching templates loses nothing.
+export function withFieldDefaults(content: AdContent | undefined, fields: FieldDefinition[]): AdContent {
+  return {
+    ...content,
+    ...Object.fromEntries(fields.map((field) => [field.key, content?.[field.key] ?? defaultFieldValue(field)])),
+  };
+}
+
+// What a form input shows for a value: numbers and currency amounts as plain numbers
+export function fieldInputValue(value: FieldValue | undefined): string {
+  if (value === undefined) return "";
+  if (typeof value === "string") return value;
+  return String(typeof value === "number" ? value : value.amount);
+}
+
+// Currency amounts and race days are formatted with the field's rules; text saved before
+// the field held them is read as one where it can be, and otherwise shown as saved
+function formatStoredValue(field: FieldDefinition, value: FieldValue, now: Date): string {
+  if (field.type === "currency" || isCurrencyValue(value)) {
+    const amount = toCurrencyValue(value, field);
+    if (amount) return formatCurrency(amount, field.currencyFormat);
+  }
+  if (field.type === "datetime") {
+    const date = parseRaceDay(value);
+    if (date) return formatRaceDay(date, field, now);
+  }
+  return fieldInputValue(value);
+}
+
+// Text drawn for a field, including its prefix and suffix
+export function formatFieldValue(field: FieldDefinition, value: FieldValue | undefined, now = new Date()): string {
+  const text = formatStoredValue(field, value ?? defaultFieldValue(field, now), now);
+  return `${field.prefix ?? ""}${text}${field.suffix ?? ""}`;
+}
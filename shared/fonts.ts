@@ -0,0 +1,93 @@
+import { type FontStyle, type SelectFont } from "./schema";
+
+// The faces text configs can name in fontFamily: the bundled Montserrat set plus any
+// uploaded fonts. Both renderers look names up here, so a font only has to be
+// registered with the canvas (FontFace in the browser, GlobalFonts on the server).
+
+export interface FontDescriptor {
+  // What text configs store in fontFamily, e.g. "Montserrat-BoldItalic"
+  name: string;
+  family: string;
+  weight: number;
+  style: FontStyle;
+  license?: string | null;
+  // Uploaded fonts only; null is available on every template
+  id?: number;
+  templateId?: number | null;
+}
+
+const MONTSERRAT_LICENSE = "SIL Open Font License 1.1";
+
+// Only the Black, Bold and Bold Italic OTFs are bundled; the canvas draws Regular with the
+// nearest bundled weight and slants Black for Black Italic
+export const BUILTIN_FONTS: FontDescriptor[] = [
+  { name: "Montserrat-Regular", family: "Montserrat", weight: 400, style: "normal", license: MONTSERRAT_LICENSE },
+  { name: "Montserrat-Bold", family: "Montserrat", weight: 700, style: "normal", license: MONTSERRAT_LICENSE },
+  { name: "Montserrat-BoldItalic", family: "Montserrat", weight: 700, style: "italic", license: MONTSERRAT_LICENSE },
+  { name: "Montserrat-Black", family: "Montserrat", weight: 900, style: "normal", license: MONTSERRAT_LICENSE },
+  { name: "Montserrat-BlackItalic", family: "Montserrat", weight: 900, style: "italic", license: MONTSERRAT_LICENSE },
+];
+
+// Unknown or deleted fonts draw in this one
+export const DEFAULT_FONT = BUILTIN_FONTS[0];
+
+const WEIGHT_NAMES: Record<number, string> = {
+  100: "Thin",
+  200: "ExtraLight",
+  300: "Light",
+  400: "Regular",
+  500: "Medium",
+  600: "SemiBold",
+  700: "Bold",
+  800: "ExtraBold",
+  900: "Black",
+};
+
+// Names follow the PostScript style of the built-ins: "Acme Sans", 700, italic → "AcmeSans-BoldItalic"
+export function fontName(family: string, weight: number, style: FontStyle): string {
+  const weightName = WEIGHT_NAMES[weight] ?? String(weight);
+  const styleName = style === "italic" ? (weightName === "Regular" ? "Italic" : `${weightName}Italic`) : weightName;
+  return `${family.replace(/\s+/g, "")}-${styleName}`;
+}
+
+// How the editor lists a font, e.g. "Acme Sans Bold Italic"
+export function fontLabel(font: FontDescriptor): string {
+  const weightName = (WEIGHT_NAMES[font.weight] ?? String(font.weight)).replace(/([a-z])([A-Z])/g, "$1 $2");
+  return `${font.family} ${weightName}${font.style === "italic" ? " Italic" : ""}`;
+}
+
+export function toFontDescriptor(font: SelectFont): FontDescriptor {
+  return {
+    id: font.id,
+    name: font.name,
+    family: font.family,
+    weight: font.weight,
+    style: font.style,
+    license: font.license,
+    templateId: font.templateId,
+  };
+}
+
+// The fonts offered when laying out text on a template
+export function fontsForTemplate(uploaded: SelectFont[], templateId: number | null): FontDescriptor[] {
+  const available = uploaded.filter((font) => font.templateId === null || font.templateId === templateId);
+  return [...BUILTIN_FONTS, ...available.map(toFontDescriptor)];
+}
+
+let uploadedFonts: FontDescriptor[] = [];
+
+// Called once the uploaded faces are registered with the canvas, so getFontString can use them
+export function setUploadedFonts(fonts: SelectFont[]): void {
+  uploadedFonts = fonts.map(toFontDescriptor);
+}
+
+export function findFont(name: string): FontDescriptor | undefined {
+  return BUILTIN_FONTS.find((font) => font.name === name) ?? uploadedFonts.find((font) => font.name === name);
+}
+
+// CSS font shorthand for the canvas; Montserrat and Arial stand in for missing glyphs
+export function fontCss(font: FontDescriptor, fontSize: number): string {
+  const style = font.style === "italic" ? "italic " : "";
+  const family = font.family === "Montserrat" ? "Montserrat" : `"${font.family}", Montserrat`;
+  return `${style}${font.weight} ${fontSize}px ${family}, Arial, sans-serif`;
+}
@@ -0,0 +1,37 @@
+import { type Template, type TemplateFormat } from "./schema";
+import { DEFAULT_CANVAS_HEIGHT, DEFAULT_CANVAS_WIDTH } from "./ad-renderer";
+
+// Every template's own background image, at the size the original layouts were designed for
+export const PRIMARY_FORMAT: TemplateFormat = {
+  key: "landscape",
+  label: "Landscape",
+  width: DEFAULT_CANVAS_WIDTH,
+  height: DEFAULT_CANVAS_HEIGHT,
+};
+
+// Channel sizes offered when adding a format
+export const FORMAT_PRESETS: TemplateFormat[] = [
+  { key: "square", label: "Square", width: 1080, height: 1080 },
+  { key: "story", label: "Story", width: 1080, height: 1920 },
+  { key: "leaderboard", label: "Leaderboard Banner", width: 728, height: 90 },
+  { key: "medium-rectangle", label: "Medium Rectangle", width: 300, height: 250 },
+];
+
+export function isPrimaryFormat(formatKey: string | null | undefined): boolean {
+  return !formatKey || formatKey === PRIMARY_FORMAT.key;
+}
+
+// The primary format followed by any extra formats the template declares
+export function getTemplateFormats(template?: Pick<Template, "formats"> | null): TemplateFormat[] {
+  return [PRIMARY_FORMAT, ...(template?.formats ?? [])];
+}
+
+export function findTemplateFormat(template: Pick<Template, "formats"> | null | undefined, formatKey: string | null | undefined): TemplateFormat | undefined {
+  return getTemplateFormats(template).find((format) => format.key === (formatKey || PRIMARY_FORMAT.key));
+}
+
+// Each template format keeps its own text config, bound on save via ?templateId&format
+export function textConfigNameForTemplate(templateId: number | null, formatKey?: string | null): string {
+  const name = templateId === null ? "default" : `template-${templateId}`;
+  return isPrimaryFormat(formatKey) ? name : `${name}-${formatKey}`;
+}
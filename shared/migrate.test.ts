@@ -0,0 +1,43 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { upgradeTextConfig } from "./migrate";
+import { textConfigSchema } from "./schema";
+
+const style = { fontFamily: "Montserrat", fontSize: 72, color: "#ffffff" };
+
+// As posted before layers had kinds and fields had vertical anchors: drawn up from `bottom`
+const PRE_ANCHOR_CONFIG = {
+  raceName: { bottom: 200, left: 100, alignment: "left", ...style },
+  prizeAmount: { bottom: 300, center: 540, alignment: "center", ...style },
+  projectedPool: { bottom: 400, right: 980, alignment: "right", ...style },
+  // Right-aligned before it had its own anchor property, so the x sits in left
+  numberOfRaces: { bottom: 500, left: 900, alignment: "right", ...style },
+};
+
+describe("upgradeTextConfig", () => {
+  it("makes a config posted before vertical anchors and layers valid", () => {
+    assert.equal(textConfigSchema.safeParse(PRE_ANCHOR_CONFIG).success, false);
+
+    const validation = textConfigSchema.safeParse(upgradeTextConfig(PRE_ANCHOR_CONFIG));
+    assert.ok(validation.success);
+    assert.deepEqual(validation.data, {
+      raceName: { kind: "text", verticalAnchor: "bottom", bottom: 200, left: 100, alignment: "left", ...style },
+      prizeAmount: { kind: "text", verticalAnchor: "bottom", bottom: 300, center: 540, alignment: "center", ...style },
+      projectedPool: { kind: "text", verticalAnchor: "bottom", bottom: 400, right: 980, alignment: "right", ...style },
+      numberOfRaces: { kind: "text", verticalAnchor: "bottom", bottom: 500, left: 900, right: 900, alignment: "right", ...style },
+    });
+  });
+
+  it("keeps current layers as they are", () => {
+    const logo = { kind: "image", assetId: 1, x: 0, y: 0, width: 200, height: 100, fit: "contain" };
+    const current = { raceName: { kind: "text", verticalAnchor: "top", top: 80, left: 100, alignment: "left", ...style }, "image-1": logo };
+
+    assert.deepEqual(upgradeTextConfig(current), current);
+  });
+
+  it("leaves shapes it doesn't recognise for the schema to report", () => {
+    assert.equal(upgradeTextConfig("raceName"), "raceName");
+    assert.deepEqual(upgradeTextConfig({ raceName: 5 }), { raceName: 5 });
+    assert.equal(textConfigSchema.safeParse(upgradeTextConfig({ raceName: 5 })).success, false);
+  });
+});
@@ -0,0 +1,93 @@
+import { textConfigSchema, toNumberValue, type AdContent, type FieldDefinition, type TextConfig } from "./schema";
+import { DEFAULT_CURRENCY, parseCurrencyAmount, toCurrencyValue } from "./currency";
+
+// Upgrades text configs, field definitions and ad content stored by earlier versions
+// of the schema to the current shape.
+
+type StoredTextPosition = Record<string, unknown> & { kind?: string; alignment?: string; verticalAnchor?: string };
+
+function migrateTextPosition(stored: StoredTextPosition): StoredTextPosition {
+  // Image layers were added with their kind, so they need no upgrading
+  if (stored.kind === "image") return stored;
+
+  // Every layer was a text layer before image layers existed
+  const position: StoredTextPosition = { kind: "text", ...stored };
+
+  // Configs saved before vertical anchors existed were always drawn from their bottom edge
+  if (!position.verticalAnchor) {
+    position.verticalAnchor = "bottom";
+  }
+
+  // Make sure the alignment's own anchor property carries the x coordinate
+  const alignment = position.alignment ?? "left";
+  if (position[alignment] === undefined) {
+    position[alignment] = position.left ?? position.center ?? position.right ?? 0;
+  }
+
+  return position;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Upgrades what it recognises and leaves the rest for textConfigSchema to report, so
+// configs posted in an earlier shape can be validated like stored ones
+export function upgradeTextConfig(stored: unknown): unknown {
+  if (!isRecord(stored)) return stored;
+  return Object.fromEntries(
+    Object.entries(stored).map(([key, position]) => [key, isRecord(position) ? migrateTextPosition(position) : position]),
+  );
+}
+
+export function migrateTextConfig(stored: unknown): TextConfig {
+  return textConfigSchema.parse(upgradeTextConfig(stored));
+}
+
+// Prize and pool fields were "$"-prefixed text before currency fields existed
+const CURRENCY_FIELD_KEYS = ["prizeAmount", "projectedPool"];
+
+const WEEKDAY_NAME = /^(mon|tues|wednes|thurs|fri|satur|sun)day$/i;
+
+export function migrateFieldDefinitions(fields: FieldDefinition[]): FieldDefinition[] {
+  return fields.map((field) => {
+    // The race day was a weekday name; it now comes from the race date, starting on the next such day
+    if (field.key === "day" && field.type === "text" && WEEKDAY_NAME.test(field.default.trim())) {
+      return { ...field, type: "datetime", default: `${field.default.trim().toLowerCase()} 19:00`, dateFormat: "EEEE" };
+    }
+
+    // The form always limited the race count to 1-20
+    if (field.key === "numberOfRaces" && field.type === "number" && field.min === undefined && field.max === undefined) {
+      return { ...field, min: 1, max: 20, integer: true };
+    }
+
+    if (field.type !== "text" || !CURRENCY_FIELD_KEYS.includes(field.key)) return field;
+
+    // The symbol now comes from the currency format, so a "$" prefix would print twice
+    const { prefix, ...rest } = field;
+    const amount = parseCurrencyAmount(field.default);
+    return {
+      ...rest,
+      ...(prefix && prefix.trim() !== "$" ? { prefix } : {}),
+      type: "currency",
+      default: amount === undefined ? field.default : String(amount),
+      currency: DEFAULT_CURRENCY,
+    };
+  });
+}
+
+// Stores text held by currency and number fields as amounts and numbers. Text that isn't one,
+// like a weekday name in a date field, is left for the editor to fix.
+export function migrateAdContent(values: AdContent, fields: FieldDefinition[]): AdContent {
+  const migrated = { ...values };
+  for (const field of fields) {
+    const value = migrated[field.key];
+    if (typeof value !== "string") continue;
+
+    if (field.type === "currency") {
+      migrated[field.key] = toCurrencyValue(value, field) ?? value;
+    } else if (field.type === "number") {
+      migrated[field.key] = toNumberValue(value) ?? value;
+    }
+  }
+  return migrated;
+}
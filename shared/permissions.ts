@@ -0,0 +1,22 @@
+import { type User, type UserRole } from "./schema";
+
+export const permissions = ["content:edit", "content:review", "render", "layout:edit", "templates:manage"] as const;
+export type Permission = typeof permissions[number];
+
+// Marketers fill in and render ads; designers also own layouts and templates.
+// Reviewers sign off ad content and can't change it.
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  marketer: ["content:edit", "render"],
+  designer: ["content:edit", "render", "layout:edit", "templates:manage"],
+  reviewer: ["content:review", "render"],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  designer: "Designer",
+  marketer: "Marketer",
+  reviewer: "Reviewer",
+};
+
+export function hasPermission(user: Pick<User, "role"> | null | undefined, permission: Permission): boolean {
+  return !!user && (ROLE_PERMISSIONS[user.role] ?? []).includes(permission);
+}
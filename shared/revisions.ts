@@ -0,0 +1,40 @@
+import { type TextConfig, type TextConfigChange } from "./schema";
+
+// Layer-by-layer differences between two text configs; a missing "before" means
+// the config is new, so every layer shows as added
+export function diffTextConfigs(before: TextConfig | undefined, after: TextConfig): TextConfigChange[] {
+  const changes: TextConfigChange[] = [];
+  const previous = before ?? {};
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(after)]));
+
+  for (const field of fields) {
+    const from = previous[field];
+    const to = after[field];
+
+    if (!from || !to) {
+      changes.push({ field, from, to });
+      continue;
+    }
+
+    // Text and image layers have different properties, so compare them as plain records
+    const fromValues: Record<string, unknown> = from;
+    const toValues: Record<string, unknown> = to;
+    const properties = Array.from(new Set([...Object.keys(from), ...Object.keys(to)]));
+    for (const property of properties) {
+      if (fromValues[property] !== toValues[property]) {
+        changes.push({ field, property, from: fromValues[property], to: toValues[property] });
+      }
+    }
+  }
+
+  return changes;
+}
+
+// One-line description of a change, e.g. "raceName fontSize 60 → 72"
+export function describeChange(change: TextConfigChange): string {
+  if (!change.property) {
+    return `${change.field} ${change.from ? "removed" : "added"}`;
+  }
+  const value = (v: unknown) => (v === undefined ? "unset" : String(v));
+  return `${change.field} ${change.property} ${value(change.from)} → ${value(change.to)}`;
+}
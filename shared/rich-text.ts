@@ -0,0 +1,71 @@
+// Inline styling inside a field's text. A tag restyles the text up to its matching [/]:
+//   [font=Montserrat-Black]$50,000[/] [font=Montserrat-BoldItalic color=#22c55e]GUARANTEED[/]
+// font names come from the font registry and colours are #RRGGBB. Tags nest, an unclosed
+// tag runs to the end, and anything that isn't a valid tag is drawn as typed.
+
+export interface TextRun {
+  text: string;
+  // Unset parts keep the field's own font and colour
+  fontFamily?: string;
+  color?: string;
+}
+
+type RunStyle = Omit<TextRun, "text">;
+
+const TAG = /\[(\/|(?:(?:font|color)=[^\s\]]+ ?)+)\]/g;
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+function parseTag(body: string): RunStyle | undefined {
+  const style: RunStyle = {};
+  for (const attribute of body.trim().split(/\s+/)) {
+    const [key, value] = attribute.split("=");
+    if (key === "color") {
+      if (!HEX_COLOR.test(value)) return undefined;
+      style.color = value;
+    } else {
+      style.fontFamily = value;
+    }
+  }
+  return style;
+}
+
+// Splits text into differently styled runs; plain text is a single run
+export function parseRichText(text: string): TextRun[] {
+  const runs: TextRun[] = [];
+  const styles: RunStyle[] = [{}];
+  let consumed = 0;
+
+  const append = (chunk: string) => {
+    if (!chunk) return;
+    const style = styles[styles.length - 1];
+    const previous = runs[runs.length - 1];
+    if (previous && previous.fontFamily === style.fontFamily && previous.color === style.color) {
+      previous.text += chunk;
+    } else {
+      runs.push({ text: chunk, ...style });
+    }
+  };
+
+  for (const match of Array.from(text.matchAll(TAG))) {
+    const closing = match[1] === "/";
+    const style = closing ? undefined : parseTag(match[1]);
+    // A close with nothing open, or a tag with a bad colour, stays in the text
+    if (closing ? styles.length === 1 : !style) continue;
+
+    append(text.slice(consumed, match.index));
+    if (closing) {
+      styles.pop();
+    } else {
+      styles.push({ ...styles[styles.length - 1], ...style });
+    }
+    consumed = match.index! + match[0].length;
+  }
+  append(text.slice(consumed));
+
+  return runs.length > 0 ? runs : [{ text: "" }];
+}
+
+// The text without its tags, e.g. for file names and lists
+export function stripMarkup(text: string): string {
+  return parseRichText(text).map((run) => run.text).join("");
+}
@@ -1,69 +1,450 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, json, serial, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, json, serial, timestamp, integer } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { toCurrencyValue } from "./currency";
+import { isCalendarDate, isClockTime, isValidDatePattern, parseRaceDay, resolveRaceDayDefault, toRaceDayValue } from "./dates";
+
+export const userRoles = ["designer", "marketer", "reviewer"] as const;
+
+// Where an ad is in the approval workflow; see shared/workflow.ts for the moves between them
+export const adStatuses = ["draft", "in_review", "approved", "published"] as const;
+export const adReviewActions = ["submit", "approve", "reject", "publish", "comment", "reopen"] as const;
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // One of userRoles; see shared/permissions.ts for what each may do
+  role: text("role").$type<UserRole>().notNull().default("marketer"),
+});
+
+export const templates = pgTable("templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  track: text("track"),
+  season: text("season"),
+  sponsor: text("sponsor"),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  // Field definitions for content on this template; null uses DEFAULT_FIELDS
+  fields: json("fields").$type<FieldDefinition[]>(),
+  // Extra output sizes beyond the primary 1920x1080 image, each with its own background
+  formats: json("formats").$type<TemplateFormat[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const fontStyles = ["normal", "italic"] as const;
+
+// Uploaded font files; see shared/fonts.ts for the built-in Montserrat faces
+export const fonts = pgTable("fonts", {
+  id: serial("id").primaryKey(),
+  // What text configs store in fontFamily, derived from family, weight and style
+  name: text("name").notNull().unique(),
+  family: text("family").notNull(),
+  weight: integer("weight").notNull(),
+  style: text("style").$type<FontStyle>().notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  // Licensing terms to check before using the font, e.g. a sponsor's usage conditions
+  license: text("license"),
+  // The template the font belongs to; null offers it on every template
+  templateId: integer("template_id").references(() => templates.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Uploaded images that image layers draw, e.g. sponsor logos, horse photos and QR codes
+export const assets = pgTable("assets", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const textPositionConfigs = pgTable("text_position_configs", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   config: json("config").notNull(),
+  templateId: integer("template_id").references(() => templates.id, { onDelete: "set null" }),
+  // TemplateFormat.key this config lays out; null is the template's primary format
+  format: text("format"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Every saved version of a text config, oldest first; rows are never updated
+export const textConfigRevisions = pgTable("text_config_revisions", {
+  id: serial("id").primaryKey(),
+  configName: text("config_name").notNull(),
+  config: json("config").$type<TextConfig>().notNull(),
+  // What changed from the previous revision
+  changes: json("changes").$type<TextConfigChange[]>().notNull(),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+  // The revision this one was restored from, if it is a rollback
+  restoredFromId: integer("restored_from_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const adContents = pgTable("ad_contents", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
-  raceName: text("race_name").notNull(),
-  prizeAmount: text("prize_amount").notNull(),
-  projectedPool: text("projected_pool").notNull(),
-  day: text("day").notNull(),
-  numberOfRaces: text("number_of_races").notNull(),
+  // Field values keyed by FieldDefinition.key
+  values: json("values").$type<AdContent>().notNull(),
+  // The template and text config this ad was last edited with; null means the built-in defaults
+  templateId: integer("template_id").references(() => templates.id, { onDelete: "set null" }),
+  textConfigName: text("text_config_name"),
+  // One of adStatuses; only approved and published ads export without a watermark
+  status: text("status").$type<AdStatus>().notNull().default("draft"),
+  // The ad's meeting in the pool data source; when set, the scheduler keeps projectedPool current
+  poolSourceKey: text("pool_source_key"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const textPositionSchema = z.object({
-  bottom: z.number().min(0),
+// The review trail of an ad: every status change and comment, oldest first by id
+export const adReviews = pgTable("ad_reviews", {
+  id: serial("id").primaryKey(),
+  adContentId: integer("ad_content_id").notNull().references(() => adContents.id, { onDelete: "cascade" }),
+  action: text("action").$type<AdReviewAction>().notNull(),
+  fromStatus: text("from_status").$type<AdStatus>().notNull(),
+  toStatus: text("to_status").$type<AdStatus>().notNull(),
+  comment: text("comment"),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Values changed by scheduled refreshes rather than by people, newest last by id
+export const adValueChanges = pgTable("ad_value_changes", {
+  id: serial("id").primaryKey(),
+  adContentId: integer("ad_content_id").notNull().references(() => adContents.id, { onDelete: "cascade" }),
+  field: text("field").notNull(),
+  fromValue: json("from_value").$type<FieldValue>(),
+  toValue: json("to_value").$type<FieldValue>().notNull(),
+  // Which adapter supplied the value, e.g. "http" or "file"
+  source: text("source").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const fieldTypes = ["text", "number", "currency", "datetime"] as const;
+
+// How a currency field writes out its amount, e.g. "$50,000", "$1.2M" or "AUD 50,000"
+export const currencyFormatSchema = z.object({
+  notation: z.enum(["standard", "compact"]).optional(),
+  decimals: z.number().int().min(0).max(2).optional(),
+  display: z.enum(["symbol", "code", "none"]).optional(),
+  grouping: z.boolean().optional(),
+});
+
+export const currencyCodeSchema = z.string().regex(/^[A-Z]{3}$/, "Currency must be a three-letter code such as AUD");
+
+export const fieldDefinitionSchema = z.object({
+  key: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, "Key must start with a letter and contain only letters, digits and underscores"),
+  label: z.string().min(1, "Label is required"),
+  type: z.enum(fieldTypes),
+  default: z.string(),
+  // Rendered around the value, e.g. the "$" in front of prize amounts
+  prefix: z.string().optional(),
+  suffix: z.string().optional(),
+  // Currency fields only: the code new amounts are entered in, and how amounts are written out
+  currency: currencyCodeSchema.optional(),
+  currencyFormat: currencyFormatSchema.optional(),
+  // Number fields only: the accepted range, e.g. 1-20 races
+  min: z.number().optional(),
+  max: z.number().optional(),
+  integer: z.boolean().optional(),
+  // Date and time fields only: a date-fns pattern for the displayed day, e.g. "EEEE" or "EEE d MMM",
+  // and whether a meeting today or tomorrow reads "TONIGHT", "TODAY" or "TOMORROW" instead
+  dateFormat: z.string().refine(isValidDatePattern, "Date format must be a date-fns pattern; quote literal text like 'at'").optional(),
+  relativeDay: z.boolean().optional(),
+});
+
+export const fieldDefinitionsSchema = z.array(fieldDefinitionSchema).min(1, "At least one field is required").superRefine((fields, ctx) => {
+  const seen = new Set<string>();
+  fields.forEach((field, index) => {
+    if (seen.has(field.key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "key"], message: `Duplicate field key "${field.key}"` });
+    }
+    seen.add(field.key);
+
+    if (field.type === "datetime" && !resolveRaceDayDefault(field.default)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "default"], message: `Default for "${field.label}" must be a weekday and time like "saturday 19:00", or a date and time` });
+    }
+  });
+});
+
+export const templateFormatSchema = z.object({
+  key: z.string().regex(/^[a-z0-9-]+$/, "Key must be lowercase letters, digits and dashes"),
+  label: z.string().min(1, "Label is required"),
+  width: z.number().int().min(1).max(4096),
+  height: z.number().int().min(1).max(4096),
+  fileName: z.string().optional(),
+  mimeType: z.string().optional(),
+});
+
+export const templateFormatUploadSchema = templateFormatSchema.omit({ fileName: true, mimeType: true }).extend({
+  image: z.string().regex(/^data:image\/(png|jpeg|webp);base64,/, "Image must be a PNG, JPEG or WebP data URL").optional(),
+});
+
+export const horizontalAlignments = ["left", "center", "right"] as const;
+export const verticalAnchors = ["top", "middle", "baseline", "bottom"] as const;
+export const textOverflowModes = ["shrink", "wrap"] as const;
+export const textTransforms = ["none", "uppercase"] as const;
+// How an image fills its layer box: contain letterboxes it, cover crops it and fill stretches it
+export const imageFits = ["contain", "cover", "fill"] as const;
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+// Layers draw from the lowest zIndex up; layers with the same zIndex draw text first, in
+// field order, then images in the order they were added
+const zIndexSchema = z.number().int().min(-100).max(100);
+
+// Each alignment reads its x from the property of the same name (left/center/right),
+// and each vertical anchor reads its y from top/middle/baseline/bottom.
+const textLayerSchema = z.object({
+  kind: z.literal("text"),
+  top: z.number().min(0).optional(),
+  middle: z.number().min(0).optional(),
+  baseline: z.number().min(0).optional(),
+  bottom: z.number().min(0).optional(),
   left: z.number().min(0).optional(),
   center: z.number().min(0).optional(),
-  alignment: z.enum(["left", "center"]),
+  right: z.number().min(0).optional(),
+  alignment: z.enum(horizontalAlignments),
+  verticalAnchor: z.enum(verticalAnchors),
   fontFamily: z.string(),
   fontSize: z.number().min(8).max(300),
-  color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  color: hexColor,
+  // Optional fit box; text shrinks towards minFontSize (or wraps first) to stay inside it
+  maxWidth: z.number().min(1).optional(),
+  maxHeight: z.number().min(1).optional(),
+  minFontSize: z.number().min(8).max(300).optional(),
+  overflow: z.enum(textOverflowModes).optional(),
+  // Effects; each is off while its properties are unset. The outline is drawn behind the fill,
+  // strokeWidth px wide outside the glyphs, and the shadow (0, 4 offset and 8 blur unless set) behind both.
+  strokeColor: hexColor.optional(),
+  strokeWidth: z.number().min(0).max(50).optional(),
+  shadowColor: hexColor.optional(),
+  shadowOffsetX: z.number().min(-100).max(100).optional(),
+  shadowOffsetY: z.number().min(-100).max(100).optional(),
+  shadowBlur: z.number().min(0).max(100).optional(),
+  letterSpacing: z.number().min(-50).max(200).optional(),
+  textTransform: z.enum(textTransforms).optional(),
+  opacity: z.number().min(0).max(1).optional(),
+  // A linear gradient from color to gradientColor across the text, at gradientAngle degrees (0 runs left to right)
+  gradientColor: hexColor.optional(),
+  gradientAngle: z.number().min(0).max(360).optional(),
+  zIndex: zIndexSchema.optional(),
 });
 
-export const textConfigSchema = z.object({
-  raceName: textPositionSchema,
-  prizeAmount: textPositionSchema,
-  projectedPool: textPositionSchema,
-  day: textPositionSchema,
-  numberOfRaces: textPositionSchema,
+// An uploaded asset drawn into the box at x, y; the box may run off the canvas, e.g. to bleed a photo
+export const imageLayerSchema = z.object({
+  kind: z.literal("image"),
+  assetId: z.number().int(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().min(1),
+  height: z.number().min(1),
+  fit: z.enum(imageFits),
+  opacity: z.number().min(0).max(1).optional(),
+  zIndex: zIndexSchema.optional(),
 });
 
+function checkTextAnchors(position: z.infer<typeof textLayerSchema>, ctx: z.RefinementCtx): void {
+  if (position[position.alignment] === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [position.alignment],
+      message: `"${position.alignment}" is required for ${position.alignment} alignment`,
+    });
+  }
+  if (position[position.verticalAnchor] === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [position.verticalAnchor],
+      message: `"${position.verticalAnchor}" is required for the ${position.verticalAnchor} anchor`,
+    });
+  }
+}
+
+export const textPositionSchema = textLayerSchema.superRefine(checkTextAnchors);
+
+export const layerSchema = z.discriminatedUnion("kind", [textLayerSchema, imageLayerSchema]).superRefine((layer, ctx) => {
+  if (layer.kind === "text") checkTextAnchors(layer, ctx);
+});
+
+// A layout's layers: text layers keyed by FieldDefinition.key, and image layers under keys
+// such as "image-1" that can't clash with a field key
+export const textConfigSchema = z.record(z.string(), layerSchema);
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
 
+export const userRoleSchema = z.enum(userRoles);
+
+// Credentials accepted by /api/register; the password is hashed before it is stored
+export const credentialsSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(64),
+  password: z.string().min(8, "Password must be at least 8 characters").max(128),
+});
+
 export const insertTextPositionConfigSchema = createInsertSchema(textPositionConfigs).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const adContentSchema = z.object({
-  raceName: z.string().min(1, "Race name is required"),
-  prizeAmount: z.string().min(1, "Prize amount is required"),
-  projectedPool: z.string().min(1, "Projected pool is required"),
-  day: z.string().min(1, "Day is required"),
-  numberOfRaces: z.string().min(1, "Number of races is required"),
+// A prize or pool amount; stored as a number so it can be formatted per template
+export const currencyValueSchema = z.object({
+  amount: z.number().finite().nonnegative(),
+  currency: currencyCodeSchema,
+});
+
+// Text and date and time fields hold strings, number fields numbers and currency fields a CurrencyValue.
+// Number fields saved before they held numbers may still hold numeric text.
+export const fieldValueSchema = z.union([z.string(), z.number(), currencyValueSchema]);
+
+// A number field's value from stored, typed or imported input; undefined when it isn't a number
+export function toNumberValue(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value === "string" && /^-?\d+(\.\d+)?$/.test(value.trim())) return Number(value.trim());
+  return undefined;
+}
+
+// Field values keyed by FieldDefinition.key; see buildAdContentSchema for per-template rules
+export const adContentSchema = z.record(z.string(), fieldValueSchema);
+
+// Validates content against a template's field definitions; values for other templates' fields pass through
+export function buildAdContentSchema(fields: FieldDefinition[]) {
+  return z.object(Object.fromEntries(fields.map((field) => {
+    // Reads typed or imported input into the stored shape, reporting blanks as missing
+    const parsed = <T>(read: (value: unknown) => T | undefined, invalid: string) => z.unknown().transform((value, ctx) => {
+      const result = read(value);
+      if (result === undefined) {
+        const missing = value === undefined || (typeof value === "string" && value.trim() === "");
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: missing ? `${field.label} is required` : `${field.label} ${invalid}` });
+        return z.NEVER;
+      }
+      return result;
+    });
+
+    switch (field.type) {
+      // Text such as "$50,000" or "1.2M" is read as an amount
+      case "currency":
+        return [field.key, parsed((value) => toCurrencyValue(value, field), "must be an amount")];
+      case "number": {
+        let number = z.number();
+        if (field.integer) number = number.int(`${field.label} must be a whole number`);
+        if (field.min !== undefined) number = number.min(field.min, `${field.label} must be at least ${field.min}`);
+        if (field.max !== undefined) number = number.max(field.max, `${field.label} must be at most ${field.max}`);
+        return [field.key, parsed(toNumberValue, "must be a number").pipe(number)];
+      }
+      case "datetime":
+        return [field.key, parsed((value) => {
+          const date = parseRaceDay(value);
+          return date && toRaceDayValue(date);
+        }, "must be a date and time")];
+      default:
+        return [field.key, z.string().min(1, `${field.label} is required`)];
+    }
+  }))).passthrough();
+}
+
+// Names appear in URLs, so keep them to a single path segment
+export const adContentNameSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100).regex(/^[^/?#]+$/, "Name cannot contain /, ? or #"),
+});
+
+// A new ad starts from the field defaults of its template, or the built-in fields without one
+export const createAdContentSchema = adContentNameSchema.extend({
+  templateId: z.number().int().nullable().default(null),
+});
+
+// A new layout starts from the default positions; its name follows from the template format
+export const createTextConfigSchema = z.object({
+  templateId: z.number().int().nullable().default(null),
+  format: z.string().nullable().default(null),
+});
+
+// Actions people take from the review panel; "reopen" only happens when an approved ad is edited
+export const adReviewRequestSchema = z.object({
+  action: z.enum(["submit", "approve", "reject", "publish", "comment"]),
+  comment: z.string().trim().max(2000).optional(),
+}).refine((review) => !(review.action === "reject" || review.action === "comment") || !!review.comment, {
+  message: "A comment is required",
+  path: ["comment"],
+});
+
+// A race meeting export from the tote or racing office. XML attributes arrive as text,
+// so numbers and flags are coerced.
+export const raceCardRaceSchema = z.object({
+  number: z.coerce.number({ invalid_type_error: "Race numbers must be numbers" }).int().min(1),
+  name: z.string().trim().min(1, "Every race needs a name"),
+  startTime: z.string().refine(isClockTime, "Race start times must be written as HH:mm between 00:00 and 23:59, e.g. 19:15"),
+  prize: z.coerce.number({ invalid_type_error: "Prizes must be amounts such as 50000" }).nonnegative().optional(),
+  feature: z.preprocess((value) => value === true || value === "true", z.boolean()).optional(),
+});
+
+export const raceCardMeetingSchema = z.object({
+  // The ad the meeting imports into; "<venue> <date>" when absent
+  name: z.string().trim().min(1).optional(),
+  venue: z.string().trim().min(1, "Every meeting needs a venue"),
+  date: z.string().refine(isCalendarDate, "Meeting dates must be real days written as YYYY-MM-DD"),
+  currency: currencyCodeSchema.optional(),
+  pool: z.coerce.number({ invalid_type_error: "Pools must be amounts such as 125000" }).nonnegative().optional(),
+  races: z.array(raceCardRaceSchema).min(1, "Every meeting needs at least one race"),
+});
+
+export const raceCardSchema = z.object({
+  meetings: z.array(raceCardMeetingSchema).min(1, "The race card has no meetings"),
+});
+
+// The uploaded file's text; apply may be limited to some of the ads the preview listed
+export const raceCardUploadSchema = z.object({
+  fileName: z.string().min(1, "File name is required"),
+  data: z.string().min(1, "The file is empty"),
+  names: z.array(z.string()).optional(),
+});
+
+// Picks the meeting whose pool refreshes the ad; null stops refreshing
+export const poolSourceSchema = z.object({
+  sourceKey: z.string().trim().min(1, "Source key is required").max(200).nullable(),
+});
+
+export const renderRequestSchema = z.object({
+  content: adContentSchema,
+  config: z.string().min(1).default("default"),
+});
+
+export const insertTemplateSchema = createInsertSchema(templates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const templateUploadSchema = z.object({
+  name: z.string().min(1, "Template name is required"),
+  track: z.string().optional(),
+  season: z.string().optional(),
+  sponsor: z.string().optional(),
+  image: z.string().regex(/^data:image\/(png|jpeg|webp);base64,/, "Image must be a PNG, JPEG or WebP data URL"),
+  fields: fieldDefinitionsSchema.optional(),
+});
+
+export const fontUploadSchema = z.object({
+  // Quotes, commas and backslashes would break the CSS font shorthand the canvas parses
+  family: z.string().trim().min(1, "Family is required").max(100).regex(/^[^"',\\;]+$/, "Family cannot contain quotes, commas, semicolons or backslashes"),
+  weight: z.number().int().min(100).max(900).multipleOf(100, "Weight must be a multiple of 100"),
+  style: z.enum(fontStyles),
+  license: z.string().trim().max(2000).optional(),
+  templateId: z.number().int().nullable().optional(),
+  file: z.string().regex(/^data:[^;,]*;base64,/, "Font must be a base64 data URL"),
+});
+
+export const assetUploadSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  image: z.string().regex(/^data:image\/(png|jpeg|webp);base64,/, "Image must be a PNG, JPEG or WebP data URL"),
 });
 
 export const insertAdContentSchema = createInsertSchema(adContents).omit({
@@ -74,10 +455,80 @@ export const insertAdContentSchema = createInsertSchema(adContents).omit({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UserRole = typeof userRoles[number];
+export type AdStatus = typeof adStatuses[number];
+export type AdReviewAction = typeof adReviewActions[number];
+// A user as returned by the API, without the password hash
+export type PublicUser = Omit<User, "password">;
+export type FieldDefinition = z.infer<typeof fieldDefinitionSchema>;
+export type TemplateFormat = z.infer<typeof templateFormatSchema>;
+export type TemplateFormatUpload = z.infer<typeof templateFormatUploadSchema>;
+export type FieldType = FieldDefinition["type"];
 export type TextPositionConfig = z.infer<typeof textPositionSchema>;
+export type HorizontalAlignment = TextPositionConfig["alignment"];
+export type VerticalAnchor = TextPositionConfig["verticalAnchor"];
+export type TextOverflowMode = NonNullable<TextPositionConfig["overflow"]>;
+export type TextTransform = NonNullable<TextPositionConfig["textTransform"]>;
+export type ImageLayerConfig = z.infer<typeof imageLayerSchema>;
+export type ImageFit = ImageLayerConfig["fit"];
+export type LayerConfig = z.infer<typeof layerSchema>;
 export type TextConfig = z.infer<typeof textConfigSchema>;
 export type InsertTextPositionConfig = z.infer<typeof insertTextPositionConfigSchema>;
 export type SelectTextPositionConfig = typeof textPositionConfigs.$inferSelect;
+export type SelectTextConfigRevision = typeof textConfigRevisions.$inferSelect;
+export type InsertTextConfigRevision = typeof textConfigRevisions.$inferInsert;
+// A revision as returned by the API, with its author's username
+export type TextConfigRevision = SelectTextConfigRevision & { authorName: string | null };
+
+// One field property that differs between two text configs; property is absent
+// when the whole field was added or removed
+export interface TextConfigChange {
+  field: string;
+  property?: string;
+  from?: unknown;
+  to?: unknown;
+}
+export type CurrencyFormat = z.infer<typeof currencyFormatSchema>;
+export type CurrencyValue = z.infer<typeof currencyValueSchema>;
+export type FieldValue = z.infer<typeof fieldValueSchema>;
 export type AdContent = z.infer<typeof adContentSchema>;
+export type RaceCard = z.infer<typeof raceCardSchema>;
+export type RaceCardMeeting = z.infer<typeof raceCardMeetingSchema>;
+export type RaceCardUpload = z.infer<typeof raceCardUploadSchema>;
+
+// One field an import would change; from is absent when the ad or field is new
+export interface AdContentChange {
+  field: string;
+  label: string;
+  from?: FieldValue;
+  to: FieldValue;
+}
+
+// What importing one meeting would do to its ad
+export interface RaceCardImport {
+  name: string;
+  exists: boolean;
+  status?: AdStatus;
+  changes: AdContentChange[];
+  errors: string[];
+}
 export type InsertAdContent = z.infer<typeof insertAdContentSchema>;
 export type SelectAdContent = typeof adContents.$inferSelect;
+export type SelectAdReview = typeof adReviews.$inferSelect;
+export type InsertAdReview = typeof adReviews.$inferInsert;
+// A review entry as returned by the API, with its author's username
+export type AdReview = SelectAdReview & { authorName: string | null };
+export type AdValueChange = typeof adValueChanges.$inferSelect;
+export type PoolSource = z.infer<typeof poolSourceSchema>;
+export type AdReviewRequest = z.infer<typeof adReviewRequestSchema>;
+export type Template = typeof templates.$inferSelect;
+export type InsertTemplate = typeof templates.$inferInsert;
+export type TemplateUpload = z.infer<typeof templateUploadSchema>;
+export type FontStyle = typeof fontStyles[number];
+export type SelectFont = typeof fonts.$inferSelect;
+export type InsertFont = typeof fonts.$inferInsert;
+export type FontUpload = z.infer<typeof fontUploadSchema>;
+export type Asset = typeof assets.$inferSelect;
+export type InsertAsset = typeof assets.$inferInsert;
+export type AssetUpload = z.infer<typeof assetUploadSchema>;
+export type RenderRequest = z.infer<typeof renderRequestSchema>;
@@ -0,0 +1,39 @@
+import { type AdReviewRequest, type AdStatus, type User } from "./schema";
+import { hasPermission, type Permission } from "./permissions";
+
+type ReviewRequestAction = AdReviewRequest["action"];
+
+// Which statuses each action applies to, where it leaves the ad, and who may take it.
+// A null "to" leaves the status as it is; any listed permission is enough.
+export const REVIEW_ACTIONS: Record<ReviewRequestAction, { from: AdStatus[]; to: AdStatus | null; permissions: Permission[] }> = {
+  submit: { from: ["draft"], to: "in_review", permissions: ["content:edit"] },
+  approve: { from: ["in_review"], to: "approved", permissions: ["content:review"] },
+  reject: { from: ["in_review"], to: "draft", permissions: ["content:review"] },
+  publish: { from: ["approved"], to: "published", permissions: ["content:edit"] },
+  comment: { from: ["draft", "in_review", "approved", "published"], to: null, permissions: ["content:edit", "content:review"] },
+};
+
+export const AD_STATUS_LABELS: Record<AdStatus, string> = {
+  draft: "Draft",
+  in_review: "In Review",
+  approved: "Approved",
+  published: "Published",
+};
+
+// Drawn across anything exported before sign-off
+export const DRAFT_WATERMARK = "DRAFT";
+
+// Only signed-off figures may leave the building without a watermark
+export function isExportable(status: AdStatus | null | undefined): boolean {
+  return status === "approved" || status === "published";
+}
+
+export function canTakeAction(user: Pick<User, "role"> | null | undefined, action: ReviewRequestAction, status: AdStatus): boolean {
+  const rule = REVIEW_ACTIONS[action];
+  return rule.from.includes(status) && rule.permissions.some((permission) => hasPermission(user, permission));
+}
+
+// Editing a signed-off ad sends it back to review; earlier statuses are unaffected
+export function statusAfterEdit(status: AdStatus): AdStatus {
+  return isExportable(status) ? "in_review" : status;
+}